@@ -1,6 +1,8 @@
 import React, { useState } from 'react';
-import { Trees as Tree, Users, Brain, HeartPulse, Wallet } from 'lucide-react';
+import { Trees as Tree, Users, Brain, HeartPulse, Wallet, Upload, FileSpreadsheet } from 'lucide-react';
 import DecisionTree from './components/DecisionTree';
+import CsvUploadWizard from './components/CsvUploadWizard';
+import { CustomDataset } from './utils/dataLoader';
 
 interface Dataset {
   name: string;
@@ -11,6 +13,8 @@ interface Dataset {
 
 function App() {
   const [selectedDataset, setSelectedDataset] = useState<string | null>(null);
+  const [customDatasets, setCustomDatasets] = useState<CustomDataset[]>([]);
+  const [showUploadWizard, setShowUploadWizard] = useState(false);
 
   const datasets: Dataset[] = [
     {
@@ -45,9 +49,29 @@ function App() {
         "Includes both personal and financial factors",
         "Based on historical banking data"
       ]
-    }
+    },
+    ...customDatasets.map((custom) => ({
+      name: custom.name,
+      description: `Uploaded CSV predicting "${custom.targetColumn}"`,
+      icon: <FileSpreadsheet className="w-8 h-8" />,
+      details: [
+        `${custom.data.length} rows`,
+        `${Object.keys(custom.data[0]).length - custom.excludeColumns.length - 1} feature columns`,
+        custom.excludeColumns.length > 0
+          ? `Excludes ${custom.excludeColumns.join(', ')}`
+          : 'No excluded columns'
+      ]
+    }))
   ];
 
+  const selectedCustomDataset = customDatasets.find((custom) => custom.name === selectedDataset);
+
+  const handleUploadComplete = (dataset: CustomDataset) => {
+    setCustomDatasets((prev) => [...prev, dataset]);
+    setSelectedDataset(dataset.name);
+    setShowUploadWizard(false);
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-50">
       <header className="bg-white shadow-sm">
@@ -101,8 +125,44 @@ function App() {
               </ul>
             </button>
           ))}
+          <button
+            onClick={() => setShowUploadWizard(true)}
+            className="p-6 bg-white rounded-xl shadow-md transition-all hover:shadow-lg border-2 border-dashed border-indigo-200 hover:border-indigo-400"
+          >
+            <div className="flex items-center justify-center mb-4">
+              <div className="p-3 bg-indigo-100 rounded-full">
+                <Upload className="w-8 h-8" />
+              </div>
+            </div>
+            <h3 className="text-xl font-semibold text-gray-900 mb-2">Your Own Data</h3>
+            <p className="text-gray-600 mb-4">Upload a CSV and choose the column to predict</p>
+            <ul className="text-sm text-left text-gray-500 space-y-1">
+              <li className="flex items-start">
+                <span className="mr-2">•</span>
+                <span>Drag and drop any CSV with a header row</span>
+              </li>
+              <li className="flex items-start">
+                <span className="mr-2">•</span>
+                <span>Pick the target and exclude ID columns</span>
+              </li>
+              <li className="flex items-start">
+                <span className="mr-2">•</span>
+                <span>Data stays in your browser</span>
+              </li>
+            </ul>
+          </button>
         </div>
 
+        {showUploadWizard && (
+          <div className="mt-12">
+            <CsvUploadWizard
+              existingNames={datasets.map((dataset) => dataset.name)}
+              onComplete={handleUploadComplete}
+              onCancel={() => setShowUploadWizard(false)}
+            />
+          </div>
+        )}
+
         {selectedDataset && (
           <div className="mt-12">
             <div className="bg-white rounded-xl shadow-lg overflow-hidden">
@@ -116,7 +176,7 @@ function App() {
                 </p>
               </div>
               <div className="p-6">
-                <DecisionTree dataset={selectedDataset} />
+                <DecisionTree dataset={selectedDataset} customDataset={selectedCustomDataset} />
               </div>
             </div>
           </div>
@@ -0,0 +1,233 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Download, FileSpreadsheet, Upload, X } from 'lucide-react';
+import { DataPoint, TreeNode, formatEstimate } from '../utils/dataLoader';
+import { FeatureDomain } from '../utils/counterfactuals';
+import { scoreBatch, scoredRowsToCsv } from '../utils/batchScoring';
+import { parseCsvInWorker } from '../utils/treeWorkerClient';
+import { downloadBlob } from '../utils/imageExport';
+
+interface BatchScoringPanelProps {
+  tree: TreeNode;
+  features: FeatureDomain[];
+  targetColumn: string;
+  datasetName: string;
+  // Loads a scored row into the feature controls
+  onLoadRow: (input: { [key: string]: string | number }) => void;
+}
+
+// Rendering thousands of table rows gets slow; the download always has every row
+const MAX_TABLE_ROWS = 500;
+
+const BatchScoringPanel: React.FC<BatchScoringPanelProps> = ({
+  tree,
+  features,
+  targetColumn,
+  datasetName,
+  onLoadRow
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [rows, setRows] = useState<DataPoint[]>([]);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsing, setParsing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const regression = tree.task === 'regression';
+
+  const result = useMemo(
+    () => (rows.length > 0 ? scoreBatch(rows, features, tree) : null),
+    [rows, features, tree]
+  );
+
+  const summary = useMemo(() => {
+    if (!result) return null;
+    const scored = result.rows.filter(row => row.leaf);
+    const counts: { [label: string]: number } = {};
+    if (!regression) scored.forEach(row => { counts[row.leaf!.name] = (counts[row.leaf!.name] || 0) + 1; });
+    return {
+      scored: scored.length,
+      skipped: result.rows.length - scored.length,
+      warned: scored.filter(row => row.issues.length > 0).length,
+      counts
+    };
+  }, [result, regression]);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+    if (!/\.csv$/i.test(file.name) && file.type !== 'text/csv') {
+      setError('Please choose a .csv file');
+      return;
+    }
+
+    try {
+      setParsing(true);
+      const parsed = await parseCsvInWorker(await file.text());
+      if (parsed.length === 0) {
+        setError('The file has no data rows');
+        return;
+      }
+      setRows(parsed);
+      setFileName(file.name);
+      setSelectedIndex(null);
+    } catch (err) {
+      console.error('Error parsing batch CSV:', err);
+      setError(`Failed to parse CSV: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const download = () => {
+    if (!result) return;
+    downloadBlob(
+      new Blob([scoredRowsToCsv(result.rows, targetColumn, regression)], { type: 'text/csv' }),
+      `${(fileName || datasetName).replace(/\.csv$/i, '').replace(/\s+/g, '_')}_scored.csv`
+    );
+  };
+
+  const clear = () => {
+    setRows([]);
+    setFileName(null);
+    setSelectedIndex(null);
+    setError(null);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-lg">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div className="flex items-center gap-2">
+          <FileSpreadsheet className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold">Batch Scoring</h3>
+          {fileName && <span className="text-sm text-gray-500">{fileName}</span>}
+        </div>
+        <div className="flex gap-2 text-sm">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={parsing}
+            className="flex items-center gap-1 px-3 py-1 rounded-lg border border-indigo-600 text-indigo-600 hover:bg-indigo-50 disabled:opacity-50"
+          >
+            <Upload className="w-4 h-4" />
+            {parsing ? 'Reading...' : fileName ? 'Replace CSV' : 'Upload CSV'}
+          </button>
+          {result && summary && summary.scored > 0 && (
+            <button
+              onClick={download}
+              className="flex items-center gap-1 px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              <Download className="w-4 h-4" />
+              Download scored CSV
+            </button>
+          )}
+          {fileName && (
+            <button onClick={clear} className="text-gray-500 hover:text-gray-700" aria-label="Clear batch">
+              <X className="w-5 h-5" />
+            </button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+      <p className="text-sm text-gray-600 mb-3">
+        Score a CSV of new cases with the current tree. Columns are matched to the feature inputs
+        ({features.map(f => f.name).join(', ')}) and only those the tree splits on are required. The download adds
+        the prediction, leaf {regression ? 'spread' : 'confidence'} and decision path to every row; click a row to load
+        it into the inputs.
+      </p>
+
+      {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+
+      {result && summary && (
+        <>
+          <div className="space-y-1 text-sm mb-3">
+            {result.schema.missing.length > 0 && (
+              <p className="text-red-600">
+                Missing columns the tree needs: {result.schema.missing.join(', ')}. No rows can be scored.
+              </p>
+            )}
+            {result.schema.ignoredMissing.length > 0 && (
+              <p className="text-gray-600">Not in the file, but unused by this tree: {result.schema.ignoredMissing.join(', ')}</p>
+            )}
+            {result.schema.extra.length > 0 && (
+              <p className="text-gray-600">Passed through unchanged: {result.schema.extra.join(', ')}</p>
+            )}
+            <p className="text-gray-700">
+              {summary.scored} of {result.rows.length} rows scored
+              {summary.warned > 0 && <span className="text-amber-700">, {summary.warned} with warnings</span>}
+              {summary.skipped > 0 && <span className="text-red-600">, {summary.skipped} skipped</span>}.
+              {!regression && summary.scored > 0 && (
+                <> Predictions: {Object.entries(summary.counts).map(([label, count]) => `${label} ${count}`).join(', ')}.</>
+              )}
+            </p>
+          </div>
+
+          <div className="max-h-96 overflow-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4">Row</th>
+                  <th className="py-2 pr-4">Prediction</th>
+                  <th className="py-2 pr-4">{regression ? 'Std' : 'Confidence'}</th>
+                  <th className="py-2 pr-4">Decision path</th>
+                  <th className="py-2">Issues</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.rows.slice(0, MAX_TABLE_ROWS).map(scored => {
+                  const leaf = scored.leaf;
+                  return (
+                    <tr
+                      key={scored.index}
+                      onClick={() => {
+                        if (!leaf) return;
+                        setSelectedIndex(scored.index);
+                        onLoadRow(scored.input);
+                      }}
+                      className={`border-b ${leaf ? 'cursor-pointer hover:bg-indigo-50' : 'text-gray-400'} ${
+                        selectedIndex === scored.index ? 'bg-indigo-100' : ''
+                      }`}
+                    >
+                      <td className="py-2 pr-4">{scored.index + 1}</td>
+                      <td className="py-2 pr-4 font-semibold text-indigo-700">
+                        {leaf ? (leaf.mean !== undefined ? formatEstimate(leaf.mean) : leaf.name) : '—'}
+                      </td>
+                      <td className="py-2 pr-4">
+                        {leaf
+                          ? regression
+                            ? formatEstimate(leaf.std || 0)
+                            : `${((leaf.confidence || 0) * 100).toFixed(1)}%`
+                          : '—'}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-700">{scored.path || '—'}</td>
+                      <td className="py-2">
+                        {scored.issues.map((issue, k) => (
+                          <p key={k} className={issue.severity === 'error' ? 'text-red-600' : 'text-amber-700'}>
+                            {issue.message}
+                          </p>
+                        ))}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {result.rows.length > MAX_TABLE_ROWS && (
+            <p className="text-xs text-gray-500 mt-2">
+              Showing the first {MAX_TABLE_ROWS} of {result.rows.length} rows; the download includes all of them.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BatchScoringPanel;
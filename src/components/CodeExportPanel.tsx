@@ -0,0 +1,149 @@
+import React, { useEffect, useState } from 'react';
+import { Code, Download, Copy, CheckCircle, AlertTriangle } from 'lucide-react';
+import { DataPoint, TreeNode } from '../utils/dataLoader';
+import {
+  CODE_LANGUAGES,
+  CodeLanguage,
+  VerificationResult,
+  generateScoringCode,
+  verifyTypeScript
+} from '../utils/codegen';
+import { downloadBlob } from '../utils/imageExport';
+
+interface CodeExportPanelProps {
+  tree: TreeNode;
+  data: DataPoint[];
+  targetColumn: string;
+  datasetName: string;
+}
+
+interface GeneratedCode {
+  code: { [language in CodeLanguage]: string };
+  verification: VerificationResult;
+}
+
+const CodeExportPanel: React.FC<CodeExportPanelProps> = ({ tree, data, targetColumn, datasetName }) => {
+  const [language, setLanguage] = useState<CodeLanguage>('typescript');
+  const [generated, setGenerated] = useState<GeneratedCode | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Code generated for an earlier tree would no longer match the view
+  useEffect(() => {
+    setGenerated(null);
+  }, [tree, data, targetColumn]);
+
+  const generate = () => {
+    const verification = verifyTypeScript(tree, data);
+    if (verification.mismatches.length > 0) {
+      console.error("Generated scoring code disagrees with predictFromTree:", verification.mismatches.slice(0, 10));
+    }
+
+    setGenerated({
+      code: {
+        typescript: generateScoringCode(tree, 'typescript', targetColumn),
+        python: generateScoringCode(tree, 'python', targetColumn),
+        sql: generateScoringCode(tree, 'sql', targetColumn)
+      },
+      verification
+    });
+    setCopied(false);
+  };
+
+  const verified = generated !== null && generated.verification.mismatches.length === 0;
+  const current = CODE_LANGUAGES.find(l => l.value === language)!;
+
+  const download = () => {
+    if (!generated || !verified) return;
+    downloadBlob(
+      new Blob([generated.code[language]], { type: 'text/plain' }),
+      `${datasetName.replace(/\s+/g, '_')}_predict_${targetColumn}.${current.extension}`
+    );
+  };
+
+  const copy = async () => {
+    if (!generated || !verified) return;
+    await navigator.clipboard.writeText(generated.code[language]);
+    setCopied(true);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <Code className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold">Scoring Code</h3>
+        </div>
+        <button
+          onClick={generate}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg shadow hover:bg-indigo-700"
+        >
+          Generate code
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Compiles the current tree into a standalone function with no dependencies. The TypeScript version is run on
+        every row of the dataset and compared with the explorer's predictions before it can be downloaded.
+      </p>
+
+      {generated && (
+        <div className="space-y-3">
+          {verified ? (
+            <p className="flex items-center gap-2 text-sm text-green-700">
+              <CheckCircle className="w-4 h-4" />
+              Matches predictFromTree on all {generated.verification.rowsChecked} rows, including two of missing values
+            </p>
+          ) : (
+            <p className="flex items-center gap-2 text-sm text-red-600">
+              <AlertTriangle className="w-4 h-4" />
+              {generated.verification.mismatches.length} of {generated.verification.rowsChecked} rows disagree
+              (first at row {generated.verification.mismatches[0].row}: expected{' '}
+              {generated.verification.mismatches[0].expected}, got {generated.verification.mismatches[0].actual}).
+              Downloads are disabled.
+            </p>
+          )}
+
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex rounded-lg border border-gray-300 overflow-hidden text-sm">
+              {CODE_LANGUAGES.map(option => (
+                <button
+                  key={option.value}
+                  onClick={() => {
+                    setLanguage(option.value);
+                    setCopied(false);
+                  }}
+                  className={`px-3 py-1 ${language === option.value ? 'bg-indigo-600 text-white' : 'text-gray-700'}`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2 text-sm">
+              <button
+                onClick={copy}
+                disabled={!verified}
+                className="flex items-center gap-1 px-3 py-1 rounded-lg border border-gray-300 text-gray-700 disabled:opacity-40"
+              >
+                <Copy className="w-4 h-4" />
+                {copied ? 'Copied' : 'Copy'}
+              </button>
+              <button
+                onClick={download}
+                disabled={!verified}
+                className="flex items-center gap-1 px-3 py-1 rounded-lg border border-gray-300 text-gray-700 disabled:opacity-40"
+              >
+                <Download className="w-4 h-4" />
+                Download .{current.extension}
+              </button>
+            </div>
+          </div>
+
+          <pre className="max-h-96 overflow-auto bg-gray-50 p-3 rounded-lg text-xs text-gray-800">
+            {generated.code[language]}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CodeExportPanel;
@@ -0,0 +1,118 @@
+import React, { useMemo, useState } from 'react';
+import { Lock, Unlock, Shuffle } from 'lucide-react';
+import { TreeNode, formatEstimate, predictFromTree } from '../utils/dataLoader';
+import { FeatureChange, FeatureDomain, findCounterfactuals } from '../utils/counterfactuals';
+import { splitFeatures } from '../utils/featureImportance';
+
+interface CounterfactualPanelProps {
+  tree: TreeNode;
+  input: { [key: string]: string | number };
+  features: FeatureDomain[];
+  targetColumn: string;
+  onApply: (updates: { [key: string]: string | number }) => void;
+}
+
+const formatValue = (value: string | number) => (typeof value === 'number' ? formatEstimate(value) : value);
+
+// Changes only touch features the tree splits on, so their display labels come from the split nodes
+const describeChanges = (changes: FeatureChange[], labels: Map<string, string>) =>
+  changes
+    .map(c => `${labels.get(c.feature) || c.feature} were ${formatValue(c.to)} instead of ${formatValue(c.from)}`)
+    .join(' and ');
+
+const leafPredictions = (node: TreeNode, found = new Set<string>()): Set<string> => {
+  if (node.children) node.children.forEach(child => leafPredictions(child, found));
+  else found.add(node.name);
+  return found;
+};
+
+const CounterfactualPanel: React.FC<CounterfactualPanelProps> = ({
+  tree,
+  input,
+  features,
+  targetColumn,
+  onApply
+}) => {
+  const [locked, setLocked] = useState<Set<string>>(new Set());
+
+  const current = useMemo(() => predictFromTree(tree, input).prediction, [tree, input]);
+  const uniform = useMemo(() => leafPredictions(tree).size <= 1, [tree]);
+  const labels = useMemo(() => new Map(splitFeatures([tree]).map(f => [f.key, f.label])), [tree]);
+  const counterfactuals = useMemo(
+    () => findCounterfactuals(tree, input, features, locked),
+    [tree, input, features, locked]
+  );
+
+  const toggleLock = (name: string) => {
+    setLocked(previous => {
+      const next = new Set(previous);
+      if (next.has(name)) next.delete(name);
+      else next.add(name);
+      return next;
+    });
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <Shuffle className="w-5 h-5 text-indigo-600" />
+        <h3 className="text-lg font-semibold">What Would Change the Prediction?</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-3">
+        The smallest edits to the current inputs that reach a leaf predicting something other than{' '}
+        <span className="font-medium">{current}</span>. Lock features that can't change.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {features.map(feature => {
+          const isLocked = locked.has(feature.name);
+          return (
+            <button
+              key={feature.name}
+              onClick={() => toggleLock(feature.name)}
+              className={`flex items-center gap-1 px-2 py-1 text-xs rounded-full border ${
+                isLocked ? 'bg-gray-700 text-white border-gray-700' : 'border-gray-300 text-gray-700'
+              }`}
+            >
+              {isLocked ? <Lock className="w-3 h-3" /> : <Unlock className="w-3 h-3" />}
+              {feature.name}
+            </button>
+          );
+        })}
+      </div>
+
+      {counterfactuals.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {uniform
+            ? 'Every leaf of this tree predicts the same class.'
+            : locked.size > 0
+              ? 'No other prediction is reachable within the training ranges without changing a locked feature.'
+              : 'No leaf predicting another class is reachable within the training ranges of the features.'}
+        </p>
+      ) : (
+        <ul className="space-y-2">
+          {counterfactuals.map(cf => (
+            <li
+              key={cf.changes.map(c => `${c.feature}=${c.to}`).join('&')}
+              className="flex items-center justify-between gap-4 p-3 bg-indigo-50 rounded-lg"
+            >
+              <p className="text-sm text-indigo-900">
+                If {describeChanges(cf.changes, labels)}, {targetColumn} would be predicted as{' '}
+                <span className="font-semibold">{cf.prediction}</span>
+                {` (${(cf.confidence * 100).toFixed(1)}% confidence)`}.
+              </p>
+              <button
+                onClick={() => onApply(Object.fromEntries(cf.changes.map(c => [c.feature, c.to])))}
+                className="shrink-0 px-3 py-1 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
+              >
+                Apply
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CounterfactualPanel;
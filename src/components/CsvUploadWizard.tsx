@@ -0,0 +1,232 @@
+import React, { useRef, useState } from 'react';
+import { Upload, FileSpreadsheet, X } from 'lucide-react';
+import { CustomDataset, DataPoint } from '../utils/dataLoader';
+import { parseCsvInWorker } from '../utils/treeWorkerClient';
+
+interface CsvUploadWizardProps {
+  existingNames: string[];
+  onComplete: (dataset: CustomDataset) => void;
+  onCancel: () => void;
+}
+
+// Columns that look like row identifiers rather than features
+const looksLikeIdColumn = (column: string, data: DataPoint[]): boolean => {
+  if (/(^|[_\s-])id$/i.test(column.trim())) return true;
+  const distinct = new Set(data.map(row => String(row[column])));
+  return distinct.size === data.length && data.some(row => typeof row[column] !== 'number');
+};
+
+const CsvUploadWizard: React.FC<CsvUploadWizardProps> = ({ existingNames, onComplete, onCancel }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<'upload' | 'configure'>('upload');
+  const [dragging, setDragging] = useState(false);
+  const [parsing, setParsing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [data, setData] = useState<DataPoint[]>([]);
+  const [columns, setColumns] = useState<string[]>([]);
+  const [name, setName] = useState('');
+  const [targetColumn, setTargetColumn] = useState('');
+  const [excludeColumns, setExcludeColumns] = useState<string[]>([]);
+
+  const handleFile = async (file: File) => {
+    setError(null);
+
+    if (!/\.csv$/i.test(file.name) && file.type !== 'text/csv') {
+      setError('Please choose a .csv file');
+      return;
+    }
+
+    try {
+      setParsing(true);
+      const rows = await parseCsvInWorker(await file.text());
+
+      if (rows.length < 10) {
+        setError('The file needs at least 10 data rows to build a tree');
+        return;
+      }
+
+      const headers = Object.keys(rows[0]);
+      if (headers.length < 2) {
+        setError('The file needs at least two columns (one feature and one target)');
+        return;
+      }
+
+      setData(rows);
+      setColumns(headers);
+      setName(file.name.replace(/\.csv$/i, ''));
+      // The last column is the most common place for a label
+      setTargetColumn(headers[headers.length - 1]);
+      setExcludeColumns(headers.slice(0, -1).filter(column => looksLikeIdColumn(column, rows)));
+      setStep('configure');
+    } catch (err) {
+      console.error('Error parsing uploaded CSV:', err);
+      setError(`Failed to parse CSV: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const toggleExcluded = (column: string) => {
+    setExcludeColumns(prev =>
+      prev.includes(column) ? prev.filter(c => c !== column) : [...prev, column]
+    );
+  };
+
+  const validate = (): string | null => {
+    const trimmedName = name.trim();
+    if (!trimmedName) return 'Give the dataset a name';
+    if (existingNames.includes(trimmedName)) return `A dataset named "${trimmedName}" already exists`;
+
+    const classes = new Set(data.map(row => String(row[targetColumn])));
+    if (classes.size < 2) return `Target column "${targetColumn}" has only one value`;
+
+    const featureColumns = columns.filter(c => c !== targetColumn && !excludeColumns.includes(c));
+    if (featureColumns.length === 0) return 'Keep at least one feature column';
+
+    return null;
+  };
+
+  const handleConfirm = () => {
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    onComplete({
+      name: name.trim(),
+      data,
+      targetColumn,
+      excludeColumns: excludeColumns.filter(c => c !== targetColumn)
+    });
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <FileSpreadsheet className="w-6 h-6 text-indigo-600" />
+          <h3 className="text-xl font-semibold text-gray-900">
+            {step === 'upload' ? 'Upload a CSV' : 'Configure Dataset'}
+          </h3>
+        </div>
+        <button onClick={onCancel} className="text-gray-400 hover:text-gray-600" aria-label="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {step === 'upload' && (
+        <div
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragging(true);
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault();
+            setDragging(false);
+            const file = e.dataTransfer.files[0];
+            if (file) handleFile(file);
+          }}
+          onClick={() => fileInputRef.current?.click()}
+          className={`flex flex-col items-center justify-center p-10 border-2 border-dashed rounded-lg cursor-pointer transition-colors
+            ${dragging ? 'border-indigo-500 bg-indigo-50' : 'border-gray-300 hover:border-indigo-400'}`}
+        >
+          {parsing ? (
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-indigo-500"></div>
+          ) : (
+            <>
+              <Upload className="w-10 h-10 text-indigo-500 mb-3" />
+              <p className="text-gray-700 font-medium">Drag a CSV file here, or click to browse</p>
+              <p className="text-sm text-gray-500 mt-1">The first row must contain column headers</p>
+            </>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      )}
+
+      {step === 'configure' && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            Parsed {data.length} rows and {columns.length} columns.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Dataset name</label>
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Target column</label>
+            <select
+              value={targetColumn}
+              onChange={(e) => setTargetColumn(e.target.value)}
+              className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+            >
+              {columns.map(column => (
+                <option key={column} value={column}>{column}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Excluded columns (IDs, free text)</label>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {columns.filter(column => column !== targetColumn).map(column => (
+                <label key={column} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={excludeColumns.includes(column)}
+                    onChange={() => toggleExcluded(column)}
+                  />
+                  {column}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => {
+                setStep('upload');
+                setError(null);
+              }}
+              className="px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              Back
+            </button>
+            <button
+              onClick={handleConfirm}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg shadow hover:bg-indigo-700"
+            >
+              Explore Dataset
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mt-4 text-red-500 p-3 bg-red-50 rounded-lg text-sm">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CsvUploadWizard;
@@ -0,0 +1,266 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { AlertTriangle } from 'lucide-react';
+import { DataPoint, formatEstimate } from '../utils/dataLoader';
+import { ASSOCIATION_LABELS, ColumnProfile, profileDataset } from '../utils/dataProfile';
+
+interface DatasetProfilePanelProps {
+  data: DataPoint[];
+  targetColumn: string;
+  // Whether the target is being predicted as classes rather than a number
+  targetCategorical: boolean;
+}
+
+// Shows padded headers such as " loan_status" with their spaces visible
+const displayName = (column: string) => (column === column.trim() ? column : JSON.stringify(column));
+
+const stat = (value?: number) => (value === undefined ? '—' : formatEstimate(value));
+
+interface DistributionChartProps {
+  data: DataPoint[];
+  profile: ColumnProfile;
+}
+
+// Histogram for numeric columns, bars of the most frequent values otherwise
+const DistributionChart: React.FC<DistributionChartProps> = ({ data, profile }) => {
+  const chartRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!chartRef.current) return;
+    d3.select(chartRef.current).selectAll("*").remove();
+
+    const margin = { top: 10, right: 20, bottom: 70, left: 60 };
+    const width = 640 - margin.left - margin.right;
+    const height = 240 - margin.top - margin.bottom;
+
+    const svg = d3
+      .select(chartRef.current)
+      .attr("width", width + margin.left + margin.right)
+      .attr("height", height + margin.top + margin.bottom)
+      .append("g")
+      .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    if (profile.type === 'numeric' && profile.min !== undefined && profile.max !== undefined) {
+      const values = data.map(row => row[profile.column]).filter((value): value is number => typeof value === 'number');
+      const x = d3.scaleLinear().domain([profile.min, profile.max]).nice().range([0, width]);
+      const bins = d3.bin().domain(x.domain() as [number, number]).thresholds(x.ticks(20))(values);
+      const y = d3.scaleLinear().domain([0, d3.max(bins, d => d.length) || 1]).nice().range([height, 0]);
+
+      svg.selectAll(".bar")
+        .data(bins)
+        .join("rect")
+        .attr("class", "bar")
+        .attr("x", d => x(d.x0!) + 1)
+        .attr("y", d => y(d.length))
+        .attr("width", d => Math.max(0, x(d.x1!) - x(d.x0!) - 1))
+        .attr("height", d => height - y(d.length))
+        .attr("fill", "#4f46e5")
+        .append("title")
+        .text(d => `${formatEstimate(d.x0!)} – ${formatEstimate(d.x1!)}: ${d.length} rows`);
+
+      svg.append("g")
+        .attr("transform", `translate(0,${height})`)
+        .call(d3.axisBottom(x).ticks(8).tickFormat(d3.format("~s")));
+      svg.append("g").call(d3.axisLeft(y).ticks(5));
+    } else {
+      const entries = profile.topValues;
+      const x = d3.scaleBand().domain(entries.map(d => d.value)).range([0, width]).padding(0.2);
+      const y = d3.scaleLinear().domain([0, d3.max(entries, d => d.count) || 1]).nice().range([height, 0]);
+
+      svg.selectAll(".bar")
+        .data(entries)
+        .join("rect")
+        .attr("class", "bar")
+        .attr("x", d => x(d.value)!)
+        .attr("y", d => y(d.count))
+        .attr("width", x.bandwidth())
+        .attr("height", d => height - y(d.count))
+        .attr("fill", "#4f46e5")
+        .append("title")
+        .text(d => `${JSON.stringify(d.value)}: ${d.count} rows (${((d.count / data.length) * 100).toFixed(1)}%)`);
+
+      svg.append("g")
+        .attr("transform", `translate(0,${height})`)
+        .call(d3.axisBottom(x))
+        .selectAll("text")
+        .attr("transform", "rotate(-30)")
+        .style("text-anchor", "end");
+      svg.append("g").call(d3.axisLeft(y).ticks(5));
+    }
+
+    svg.append("text")
+      .attr("transform", "rotate(-90)")
+      .attr("x", -height / 2)
+      .attr("y", -45)
+      .style("text-anchor", "middle")
+      .style("font-size", "12px")
+      .text("Rows");
+  }, [data, profile]);
+
+  return <svg ref={chartRef}></svg>;
+};
+
+const DatasetProfilePanel: React.FC<DatasetProfilePanelProps> = ({ data, targetColumn, targetCategorical }) => {
+  const profile = useMemo(
+    () => profileDataset(data, targetColumn, targetCategorical),
+    [data, targetColumn, targetCategorical]
+  );
+  const [selectedColumn, setSelectedColumn] = useState<string | null>(null);
+  const [sortByAssociation, setSortByAssociation] = useState(false);
+
+  const target = profile.columns.find(c => c.column === targetColumn);
+  // Defaults to the first column with a problem, since that's the one worth looking at
+  const selected = profile.columns.find(c => c.column === selectedColumn)
+    || profile.columns.find(c => c.issues.length > 0)
+    || profile.columns[0];
+  const issueCount = profile.columns.filter(c => c.issues.length > 0).length;
+
+  const columns = sortByAssociation
+    ? [...profile.columns].sort((a, b) => Math.abs(b.association?.value || 0) - Math.abs(a.association?.value || 0))
+    : profile.columns;
+
+  const classBalance = target && targetCategorical ? target.topValues : [];
+  const imbalance = classBalance.length > 1
+    ? classBalance[0].count / classBalance[classBalance.length - 1].count
+    : null;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        {profile.rows} rows and {profile.columns.length} columns.{' '}
+        {issueCount > 0
+          ? `${issueCount} column${issueCount === 1 ? ' looks' : 's look'} suspicious.`
+          : 'No obvious problems found.'}
+      </p>
+
+      {target && (
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-1">
+            {targetCategorical ? 'Class balance' : 'Target distribution'}: {displayName(targetColumn)}
+          </h4>
+          {targetCategorical && (
+            <div className="space-y-1 mb-2">
+              {classBalance.map(({ value, count }) => (
+                <div key={value} className="flex items-center gap-2 text-sm">
+                  <span className="w-32 truncate text-gray-700" title={value}>{JSON.stringify(value)}</span>
+                  <div className="flex-1 bg-gray-100 rounded h-4">
+                    <div className="bg-indigo-600 h-4 rounded" style={{ width: `${(count / profile.rows) * 100}%` }}></div>
+                  </div>
+                  <span className="w-28 text-right text-gray-600">
+                    {count} ({((count / profile.rows) * 100).toFixed(1)}%)
+                  </span>
+                </div>
+              ))}
+              {target.distinct > classBalance.length && (
+                <p className="text-xs text-gray-500">Showing the {classBalance.length} largest of {target.distinct} classes.</p>
+              )}
+              {imbalance !== null && imbalance >= 3 && (
+                <p className="text-sm text-amber-700">
+                  The largest class is {imbalance.toFixed(1)}× the smallest; accuracy alone will flatter the tree.
+                </p>
+              )}
+            </div>
+          )}
+          {!targetCategorical && <DistributionChart data={data} profile={target} />}
+        </div>
+      )}
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <h4 className="font-semibold text-gray-900">Columns</h4>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={sortByAssociation}
+              onChange={(e) => setSortByAssociation(e.target.checked)}
+            />
+            Sort by association with {displayName(targetColumn)}
+          </label>
+        </div>
+        <div className="max-h-96 overflow-auto">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-white">
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4">Column</th>
+                <th className="py-2 pr-4">Type</th>
+                <th className="py-2 pr-4">Missing</th>
+                <th className="py-2 pr-4">Distinct</th>
+                <th className="py-2 pr-4">Min</th>
+                <th className="py-2 pr-4">Q1</th>
+                <th className="py-2 pr-4">Median</th>
+                <th className="py-2 pr-4">Mean</th>
+                <th className="py-2 pr-4">Q3</th>
+                <th className="py-2 pr-4">Max</th>
+                <th className="py-2">Target association</th>
+              </tr>
+            </thead>
+            <tbody>
+              {columns.map(column => (
+                <tr
+                  key={column.column}
+                  onClick={() => setSelectedColumn(column.column)}
+                  className={`border-b cursor-pointer hover:bg-indigo-50 ${column === selected ? 'bg-indigo-100' : ''}`}
+                >
+                  <td className="py-2 pr-4 font-medium text-gray-800 whitespace-nowrap">
+                    <span className="flex items-center gap-1">
+                      {column.issues.length > 0 && <AlertTriangle className="w-4 h-4 text-amber-600" />}
+                      {displayName(column.column)}
+                      {column.column === targetColumn && <span className="text-xs text-indigo-600">(target)</span>}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4">{column.type}</td>
+                  <td className={`py-2 pr-4 ${column.missing > 0 ? 'text-amber-700' : ''}`}>{column.missing}</td>
+                  <td className="py-2 pr-4">{column.distinct}</td>
+                  <td className="py-2 pr-4">{stat(column.min)}</td>
+                  <td className="py-2 pr-4">{stat(column.q1)}</td>
+                  <td className="py-2 pr-4">{stat(column.median)}</td>
+                  <td className="py-2 pr-4">{stat(column.mean)}</td>
+                  <td className="py-2 pr-4">{stat(column.q3)}</td>
+                  <td className="py-2 pr-4">{stat(column.max)}</td>
+                  <td className="py-2" title={column.association ? ASSOCIATION_LABELS[column.association.measure] : undefined}>
+                    {column.association && (
+                      <span className="flex items-center gap-2">
+                        <span className="w-16 bg-gray-100 rounded h-2">
+                          <span
+                            className={`block h-2 rounded ${column.association.value < 0 ? 'bg-red-500' : 'bg-indigo-600'}`}
+                            style={{ width: `${Math.abs(column.association.value) * 100}%` }}
+                          ></span>
+                        </span>
+                        {column.association.value.toFixed(2)}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">
+          Association uses Pearson correlation between two numeric columns, the correlation ratio (η) between a numeric
+          and a categorical column, and Cramér's V between two categorical columns.
+        </p>
+      </div>
+
+      {selected && (
+        <div>
+          <h4 className="font-semibold text-gray-900 mb-1">
+            {displayName(selected.column)}: {selected.type === 'numeric' ? 'histogram' : 'most frequent values'}
+          </h4>
+          {selected.issues.length > 0 && (
+            <ul className="mb-2 text-sm text-amber-700 list-disc list-inside">
+              {selected.issues.map(issue => <li key={issue}>{issue}</li>)}
+            </ul>
+          )}
+          {selected.type === 'numeric' && selected.std !== undefined && (
+            <p className="text-sm text-gray-600 mb-1">
+              Mean {stat(selected.mean)} ± {stat(selected.std)}; half the rows lie between {stat(selected.q1)} and {stat(selected.q3)}.
+            </p>
+          )}
+          <DistributionChart data={data} profile={selected} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DatasetProfilePanel;
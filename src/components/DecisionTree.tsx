@@ -1,23 +1,88 @@
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { loadDataset, buildDecisionTree, DataPoint, predictFromTree } from '../utils/dataLoader';
-import { Sliders, Download } from 'lucide-react';
-
-interface TreeNode {
-  name: string;
-  children?: TreeNode[];
-  value?: number;
-  condition?: string;
-  confidence?: number;
-  feature?: string;
-  threshold?: number;
-  samples?: number;
-  distribution?: { [key: string]: number };
-  isNumeric?: boolean;
-}
+import {
+  fetchDatasetText,
+  DataPoint,
+  predictFromTree,
+  findLeaf,
+  formatEstimate,
+  isNumericColumn,
+  isNumericFeature,
+  suggestTask,
+  CustomDataset,
+  dropColumns,
+  TreeNode,
+  TreeOptions,
+  TreeBuildProgress,
+  DEFAULT_TREE_OPTIONS
+} from '../utils/dataLoader';
+import {
+  createTreeWorkerClient,
+  parseCsvInWorker,
+  CancelledError,
+  TreeWorkerClient,
+  WorkerJob,
+  TrainingResult
+} from '../utils/treeWorkerClient';
+import { getCriterionLabel } from '../utils/splitCriteria';
+import { computePruningPath } from '../utils/pruning';
+import { evaluateTree } from '../utils/evaluation';
+import {
+  TreeModelFile,
+  describeDataset,
+  fingerprintDataset,
+  modelFeatures,
+  parseModelFile,
+  serializeModel
+} from '../utils/modelSchema';
+import { exportPmml, parsePmml } from '../utils/pmml';
+import { exportDot, exportMermaid } from '../utils/diagramExport';
+import { downloadBlob } from '../utils/imageExport';
+import { TreeRule } from '../utils/ruleList';
+import {
+  FeatureImportance,
+  IMPORTANCE_METHODS,
+  ImportanceMethod,
+  impurityImportance,
+  permutationImportance,
+  splitFeatures
+} from '../utils/featureImportance';
+import {
+  DEFAULT_FOREST_OPTIONS,
+  ForestBuildProgress,
+  ForestOptions,
+  RandomForest,
+  forestAccuracy,
+  predictFromForest
+} from '../utils/randomForest';
+import EvaluationPanel from './EvaluationPanel';
+import RegressionEvaluationPanel from './RegressionEvaluationPanel';
+import ModelSettingsPanel from './ModelSettingsPanel';
+import PruningPanel from './PruningPanel';
+import ForestPanel from './ForestPanel';
+import CodeExportPanel from './CodeExportPanel';
+import ImageExportControls from './ImageExportControls';
+import CounterfactualPanel from './CounterfactualPanel';
+import ShapWaterfall from './ShapWaterfall';
+import PartialDependencePanel from './PartialDependencePanel';
+import RuleListPanel from './RuleListPanel';
+import ModelComparisonPanel from './ModelComparisonPanel';
+import BatchScoringPanel from './BatchScoringPanel';
+import FairnessPanel from './FairnessPanel';
+import DatasetProfilePanel from './DatasetProfilePanel';
+import ManualTreePanel from './ManualTreePanel';
+import { Sliders, Download, Upload, X, LineChart } from 'lucide-react';
 
 interface DecisionTreeProps {
   dataset: string;
+  customDataset?: CustomDataset;
+}
+
+interface ImportedModel {
+  model: TreeModelFile;
+  fingerprintMatches: boolean;
+  // Columns the model splits on that the loaded dataset doesn't have
+  missingFeatures: string[];
 }
 
 interface FeatureInput {
@@ -29,7 +94,66 @@ interface FeatureInput {
   max?: number;
 }
 
-const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
+// Finds the root-to-leaf path that `input` follows through the tree
+const getDecisionPath = (
+  tree: TreeNode,
+  input: { [key: string]: string | number }
+): d3.HierarchyNode<TreeNode>[] => {
+  // Create hierarchy from tree data
+  const hierarchy = d3.hierarchy(tree);
+  
+  // Find the path through the tree based on input values
+  const path: d3.HierarchyNode<TreeNode>[] = [];
+  let currentNode = hierarchy;
+  
+  // Add the root node
+  path.push(currentNode);
+  
+  // Traverse the tree until we reach a leaf node
+  while (currentNode.children && currentNode.children.length > 0) {
+    const feature = currentNode.data.feature;
+    if (!feature || !(feature in input)) {
+      break;
+    }
+    
+    const value = input[feature];
+    const threshold = currentNode.data.threshold;
+    const isNumeric = typeof threshold === 'number';
+    
+    let nextNode;
+    if (isNumeric) {
+      nextNode = Number(value) <= Number(threshold)
+        ? currentNode.children[0]
+        : currentNode.children[1];
+    } else {
+      nextNode = String(value) === String(threshold)
+        ? currentNode.children[0]
+        : currentNode.children[1];
+    }
+    
+    if (!nextNode) break;
+    
+    path.push(nextNode);
+    currentNode = nextNode;
+  }
+  
+  // Log the path for debugging
+  console.log("Decision Path:", path.map(node => 
+    node.data.feature ? `${node.data.name} ${node.data.condition || ''}` : `Prediction: ${node.data.name}`
+  ));
+
+  return path;
+};
+
+const NODE_RADIUS = 14;
+
+// One color per class, fixed by the root's classes so every node and the legend agree
+const classColorScale = (tree: TreeNode | null) =>
+  d3.scaleOrdinal<string, string>()
+    .domain(Object.keys(tree?.distribution || {}).sort())
+    .range(d3.schemeTableau10);
+
+const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset, customDataset }) => {
   const svgRef = useRef<SVGSVGElement>(null);
   const tooltipRef = useRef<HTMLDivElement>(null);
   const featureImportanceRef = useRef<SVGSVGElement>(null); // Ref for feature importance chart
@@ -42,26 +166,95 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
   const [features, setFeatures] = useState<FeatureInput[]>([]);
   const [prediction, setPrediction] = useState<string | null>(null);
   const [confidence, setConfidence] = useState<number | null>(null);
+  // Leaf behind the current prediction; regression reports its mean and spread
+  const [predictedLeaf, setPredictedLeaf] = useState<TreeNode | null>(null);
   const [datasetSummary, setDatasetSummary] = useState<{ rows: number; columns: number } | null>(null);
-  const [featureImportance, setFeatureImportance] = useState<{ feature: string; importance: number }[]>([]);
+  const [summaryTab, setSummaryTab] = useState<'summary' | 'profile'>('summary');
+  const [featureImportance, setFeatureImportance] = useState<FeatureImportance[]>([]);
   const [inputData, setInputData] = useState<{ [key: string]: string | number }>({});
+  const [modelData, setModelData] = useState<DataPoint[]>([]);
+  const [targetColumn, setTargetColumn] = useState<string>('');
+  const [testFraction, setTestFraction] = useState(0.2);
+  const [treeOptions, setTreeOptions] = useState<TreeOptions>(DEFAULT_TREE_OPTIONS);
+  // Input behind the current prediction, re-scored whenever the tree is retrained
+  const predictionInputRef = useRef<{ [key: string]: string | number } | null>(null);
+  const [trainData, setTrainData] = useState<DataPoint[]>([]);
+  const [testData, setTestData] = useState<DataPoint[]>([]);
+  const workerClientRef = useRef<TreeWorkerClient | null>(null);
+  const trainingJobRef = useRef<WorkerJob<TrainingResult> | null>(null);
+  const [trainingProgress, setTrainingProgress] = useState<TreeBuildProgress | null>(null);
+  const [training, setTraining] = useState(false);
+  const [pruningStep, setPruningStep] = useState(0);
+  const [forestEnabled, setForestEnabled] = useState(false);
+  const [forestOptions, setForestOptions] = useState<ForestOptions>(DEFAULT_FOREST_OPTIONS);
+  const [forest, setForest] = useState<RandomForest | null>(null);
+  // Forests build on their own worker so cancelling one build never kills the other
+  const forestClientRef = useRef<TreeWorkerClient | null>(null);
+  const forestJobRef = useRef<WorkerJob<RandomForest> | null>(null);
+  const [forestTraining, setForestTraining] = useState(false);
+  const [forestProgress, setForestProgress] = useState<ForestBuildProgress | null>(null);
+  const [viewedForestTree, setViewedForestTree] = useState<number | null>(null);
+  const [importanceSource, setImportanceSource] = useState<'tree' | 'forest'>('tree');
+  const [importanceMethod, setImportanceMethod] = useState<ImportanceMethod>('impurity');
+  // Raw column whose partial dependence plot is open
+  const [pdpFeature, setPdpFeature] = useState<string | null>(null);
+  // While a saved model is loaded, the tree is not retrained from the data
+  const [importedModel, setImportedModel] = useState<ImportedModel | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  // Hand-built tree while "grow it yourself" mode is on, and the node clicked in it
+  const [manualTree, setManualTree] = useState<TreeNode | null>(null);
+  const [manualNode, setManualNode] = useState<TreeNode | null>(null);
+
+  // Every tree shown, scored or exported is the grown tree pruned to the selected alpha
+  const pruningPath = useMemo(() => (treeData ? computePruningPath(treeData) : []), [treeData]);
+  const activeTree = pruningPath[Math.min(pruningStep, pruningPath.length - 1)]?.tree || null;
+  // Browsing a forest member or growing a tree by hand only changes the drawing;
+  // predictions still come from activeTree
+  const displayedTree = manualTree || (viewedForestTree !== null && forest?.trees[viewedForestTree]) || activeTree;
+  const classColor = useMemo(() => classColorScale(displayedTree), [displayedTree]);
+
+  // The worker outlives individual builds; tear it down with the component
+  useEffect(() => {
+    return () => {
+      workerClientRef.current?.dispose();
+      workerClientRef.current = null;
+      forestClientRef.current?.dispose();
+      forestClientRef.current = null;
+    };
+  }, []);
 
   useEffect(() => {
+    // Set when the dataset changes again before this load finishes
+    let stale = false;
+
     const loadData = async () => {
       try {
         setLoading(true);
         setError(null);
         setPrediction(null);
         setConfidence(null);
+        setPredictedLeaf(null);
+        predictionInputRef.current = null;
         setSelectedPath([]);
         setFeatures([]);
         setFeatureImportance([]);
+        setPdpFeature(null);
+        setManualTree(null);
         setInputData({});
+        setTreeData(null);
+        setModelData([]);
+        setImportedModel(null);
+        setImportError(null);
 
         console.log(`Loading dataset: ${dataset}`);
         
         try {
-          const data = await loadDataset(dataset);
+          // Bundled datasets are parsed in the worker to keep the page responsive
+          const data = customDataset
+            ? customDataset.data
+            : await parseCsvInWorker(await fetchDatasetText(dataset));
+          if (stale) return;
           
           // Log data size to help debug
           console.log(`Loaded ${data?.length ?? 0} rows of data`);
@@ -74,42 +267,30 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
           }
 
           // Correctly identify the target column for this dataset
-          const targetColumn = getTargetColumn(dataset);
-          console.log(`Target column: ${targetColumn}`);
-          
-          // Build the decision tree with a timeout to ensure UI responsiveness
-          setTimeout(() => {
-            try {
-              const tree = buildDecisionTree(data, targetColumn);
-              setTreeData(tree);
-
-              // Update dataset summary to reflect the actual rows and columns
-              setDatasetSummary({
-                rows: data.length,
-                columns: Object.keys(data[0]).length,
-              });
-
-              const featureInputs = extractFeatureInputs(data);
-              setFeatures(featureInputs);
-
-              // Initialize input data with default feature values
-              const defaultInputData = Object.fromEntries(
-                featureInputs.map((f) => [f.name, f.value])
-              );
-              setInputData(defaultInputData);
-
-              const importance = calculateFeatureImportance(tree);
-              setFeatureImportance(importance);
-              
-              console.log('Decision tree built successfully');
-            } catch (treeErr) {
-              console.error("Error building tree:", treeErr);
-              setError(treeErr instanceof Error ? treeErr.message : 'Failed to build decision tree');
-            } finally {
-              setLoading(false);
-            }
-          }, 100);
+          const target = getTargetColumn(dataset);
+          console.log(`Target column: ${target}`);
+          setTargetColumn(target);
+          setTreeOptions(options => ({ ...options, task: suggestTask(data, target) }));
+
+          // Update dataset summary to reflect the actual rows and columns
+          setDatasetSummary({
+            rows: data.length,
+            columns: Object.keys(data[0]).length,
+          });
+
+          const featureInputs = extractFeatureInputs(data, target);
+          setFeatures(featureInputs);
+
+          // Initialize input data with default feature values
+          const defaultInputData = Object.fromEntries(
+            featureInputs.map((f) => [f.name, f.value])
+          );
+          setInputData(defaultInputData);
+
+          // Uploaded datasets drop their excluded columns before training
+          setModelData(customDataset ? dropColumns(data, customDataset.excludeColumns) : data);
         } catch (dataErr) {
+          if (stale) return;
           console.error("Error loading dataset:", dataErr);
           setError(`Failed to load dataset: ${dataErr instanceof Error ? dataErr.message : String(dataErr)}`);
           setLoading(false);
@@ -122,7 +303,182 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
     };
 
     loadData();
-  }, [dataset]);
+
+    return () => {
+      stale = true;
+    };
+  }, [dataset, customDataset]);
+
+  // (Re)train whenever the data, the holdout split or the model settings change
+  useEffect(() => {
+    if (modelData.length === 0 || !targetColumn || importedModel) return;
+
+    if (!workerClientRef.current) {
+      workerClientRef.current = createTreeWorkerClient();
+    }
+
+    // Induction runs in a worker so large datasets don't freeze the page
+    const job = workerClientRef.current.train(
+      { data: modelData, target: targetColumn, testFraction, options: treeOptions },
+      setTrainingProgress
+    );
+    trainingJobRef.current = job;
+    setTraining(true);
+    setTrainingProgress(null);
+
+    job.promise
+      .then(({ tree, train, test }) => {
+        setTreeData(tree);
+        setPruningStep(0);
+        setTrainData(train);
+        setTestData(test);
+        // A hand-built tree's counts belong to the previous training split
+        setManualTree(null);
+        
+        console.log('Decision tree built successfully');
+        setLoading(false);
+        setTraining(false);
+      })
+      .catch((treeErr) => {
+        // Superseded builds are cancelled on purpose; their results are dropped
+        if (treeErr instanceof CancelledError) return;
+        console.error("Error building tree:", treeErr);
+        setError(treeErr instanceof Error ? treeErr.message : 'Failed to build decision tree');
+        setLoading(false);
+        setTraining(false);
+      });
+
+    // Runs when the dataset or settings change mid-build, and on unmount
+    return () => {
+      job.cancel();
+      if (trainingJobRef.current === job) trainingJobRef.current = null;
+    };
+  }, [modelData, targetColumn, testFraction, treeOptions, importedModel]);
+
+  // The forest trains on the same split as the tree so holdout accuracies are comparable
+  useEffect(() => {
+    if (!forestEnabled || treeOptions.task === 'regression') {
+      setForest(null);
+      setViewedForestTree(null);
+      return;
+    }
+    if (trainData.length === 0 || !targetColumn) return;
+
+    if (!forestClientRef.current) {
+      forestClientRef.current = createTreeWorkerClient();
+    }
+
+    const job = forestClientRef.current.trainForest(
+      { data: trainData, target: targetColumn, treeOptions, forestOptions },
+      setForestProgress
+    );
+    forestJobRef.current = job;
+    setForestTraining(true);
+    setForestProgress(null);
+
+    job.promise
+      .then((result) => {
+        setForest(result);
+        setViewedForestTree(current => (current !== null && current < result.trees.length ? current : null));
+        setForestTraining(false);
+      })
+      .catch((forestErr) => {
+        if (forestErr instanceof CancelledError) return;
+        console.error("Error building random forest:", forestErr);
+        setError(forestErr instanceof Error ? forestErr.message : 'Failed to build random forest');
+        setForestTraining(false);
+      });
+
+    return () => {
+      job.cancel();
+      if (forestJobRef.current === job) forestJobRef.current = null;
+    };
+  }, [forestEnabled, trainData, targetColumn, treeOptions, forestOptions]);
+
+  const cancelForestTraining = () => {
+    forestJobRef.current?.cancel();
+    forestJobRef.current = null;
+    setForestTraining(false);
+    setForestProgress(null);
+  };
+
+  const cancelTraining = () => {
+    trainingJobRef.current?.cancel();
+    trainingJobRef.current = null;
+    setTraining(false);
+    setTrainingProgress(null);
+  };
+
+  const updatePrediction = useCallback((tree: TreeNode, input: { [key: string]: string | number }) => {
+    try {
+      // Predict the outcome based on the updated input data
+      const result = predictFromTree(tree, input);
+      setPrediction(result.prediction);
+      setConfidence(result.confidence);
+      setPredictedLeaf(findLeaf(tree, input));
+    } catch (error) {
+      console.error("Prediction error:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (activeTree && predictionInputRef.current) {
+      updatePrediction(activeTree, predictionInputRef.current);
+    }
+  }, [activeTree, updatePrediction]);
+
+  // Highlight the current input's path through whichever tree is drawn
+  useEffect(() => {
+    setSelectedPath(
+      displayedTree && predictionInputRef.current ? getDecisionPath(displayedTree, predictionInputRef.current) : []
+    );
+  }, [displayedTree]);
+
+  useEffect(() => {
+    const useForest = importanceSource === 'forest' && forest && forest.trees.length > 0;
+
+    if (importanceMethod === 'permutation') {
+      if (!activeTree) {
+        setFeatureImportance([]);
+        return;
+      }
+      // Scored on the holdout rows, which neither model was trained on
+      const trees = useForest ? forest.trees : [activeTree];
+      const predict = useForest
+        ? (row: DataPoint) => predictFromForest(forest, row).prediction
+        : activeTree.task === 'regression'
+          ? (row: DataPoint) => findLeaf(activeTree, row).mean || 0
+          : (row: DataPoint) => predictFromTree(activeTree, row).prediction;
+      setFeatureImportance(
+        permutationImportance(predict, testData, targetColumn, activeTree.task || 'classification', splitFeatures(trees))
+      );
+    } else if (useForest) {
+      // Mean of the per-tree normalized importances
+      const totals = new Map<string, FeatureImportance>();
+      forest.trees.forEach(tree => {
+        impurityImportance(tree).forEach(({ feature, label, importance }) => {
+          const total = totals.get(feature) || { feature, label, importance: 0 };
+          totals.set(feature, { ...total, importance: total.importance + importance / forest.trees.length });
+        });
+      });
+      setFeatureImportance(Array.from(totals.values()).sort((a, b) => b.importance - a.importance));
+    } else {
+      setFeatureImportance(impurityImportance(activeTree));
+    }
+  }, [activeTree, forest, importanceSource, importanceMethod, testData, targetColumn]);
+
+  const forestVote = useMemo(
+    () => (forest && forest.trees.length > 0 ? predictFromForest(forest, inputData) : null),
+    [forest, inputData]
+  );
+
+  const holdoutAccuracies = useMemo(() => {
+    if (!forest || !activeTree || testData.length === 0) return null;
+    return {
+      tree: evaluateTree(activeTree, testData, targetColumn).accuracy,
+      forest: forestAccuracy(forest, testData, targetColumn)
+    };
+  }, [forest, activeTree, testData, targetColumn]);
 
   // Add a utility function to handle errors in fetch operations
   const fetchWithTimeout = async (url: string, options: RequestInit = {}, timeout = 10000): Promise<Response> => {
@@ -143,6 +499,8 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
   };
 
   const getTargetColumn = (dataset: string): string => {
+    if (customDataset) return customDataset.targetColumn;
+
     switch (dataset) {
       case 'Adult Income':
         return 'income';
@@ -155,7 +513,7 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
     }
   };
 
-  const extractFeatureInputs = (data: DataPoint[]): FeatureInput[] => {
+  const extractFeatureInputs = (data: DataPoint[], target: string): FeatureInput[] => {
     if (!data || data.length === 0) return [];
     
     const features: FeatureInput[] = [];
@@ -166,26 +524,28 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
     
     switch(dataset) {
       case 'Adult Income':
-        excludeColumns = ['fnlwgt', 'income', 'educational-num'];
+        excludeColumns = ['fnlwgt', 'educational-num'];
         break;
       case 'Heart Disease':
-        excludeColumns = ['target'];
+        excludeColumns = [];
         break;
       case 'Loan Approval':
-        excludeColumns = ['loan_id', 'loan_status'];
+        excludeColumns = ['loan_id'];
         break;
       default:
-        excludeColumns = ['fnlwgt', 'income', 'educational-num'];
+        excludeColumns = ['fnlwgt', 'educational-num'];
     }
 
-    for (const [key, value] of Object.entries(firstRow)) {
-      if (excludeColumns.includes(key)) continue;
+    if (customDataset) {
+      excludeColumns = [...customDataset.excludeColumns];
+    }
+    // Whichever column is being predicted never gets an input control
+    excludeColumns.push(target);
 
-      // Check if the feature is numeric by looking at all values
-      const allValues = data.map(row => row[key]);
-      const isNumeric = allValues.every(val => !isNaN(Number(val)) && val !== null && val !== '');
+    for (const key of Object.keys(firstRow)) {
+      if (excludeColumns.includes(key)) continue;
 
-      if (isNumeric) {
+      if (isNumericFeature(data, key)) {
         const values = data.map(row => Number(row[key]));
         features.push({
           name: key,
@@ -208,120 +568,123 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
     return features;
   };
 
-  const calculateFeatureImportance = (tree: TreeNode | null): { feature: string; importance: number }[] => {
-    if (!tree) return [];
-    
-    // Track features and their importance
-    const importanceMap: { [key: string]: number } = {};
-    let totalImportance = 0;
-
-    // Traverse the tree to calculate importance
-    const traverse = (node: TreeNode, depth = 0) => {
-      if (node.feature) {
-        // Weight by samples and depth - nodes higher up are more important
-        const nodeImportance = ((node.samples || 1) / 100) * Math.pow(0.9, depth) * (node.confidence || 0.5);
-        importanceMap[node.feature] = (importanceMap[node.feature] || 0) + nodeImportance;
-        totalImportance += nodeImportance;
-      }
-      
-      if (node.children) {
-        node.children.forEach(child => traverse(child, depth + 1));
-      }
-    };
+  // Any column can be predicted; numeric ones can switch to a regression tree
+  const applyTarget = (column: string) => {
+    setTargetColumn(column);
+    const featureInputs = extractFeatureInputs(modelData, column);
+    setFeatures(featureInputs);
+    setInputData(Object.fromEntries(featureInputs.map((f) => [f.name, f.value])));
+    predictionInputRef.current = null;
+    setPrediction(null);
+    setConfidence(null);
+    setPredictedLeaf(null);
+    setSelectedPath([]);
+    setPdpFeature(null);
+    setManualTree(null);
+  };
 
-    traverse(tree);
+  const handleTargetChange = (column: string) => {
+    applyTarget(column);
+    setTreeOptions(options => ({ ...options, task: suggestTask(modelData, column) }));
+  };
 
-    // Normalize importance values
-    if (totalImportance > 0) {
-      Object.keys(importanceMap).forEach(key => {
-        importanceMap[key] = importanceMap[key] / totalImportance;
-      });
-    }
+  const targetOptions = Object.keys(modelData[0] || {}).filter(column => column !== 'id' && column !== 'loan_id');
+  const regressionAvailable = useMemo(
+    () => modelData.length > 0 && !!targetColumn && isNumericColumn(modelData, targetColumn),
+    [modelData, targetColumn]
+  );
 
-    // Sort by importance
-    return Object.entries(importanceMap)
-      .map(([feature, importance]) => ({ feature, importance }))
-      .sort((a, b) => b.importance - a.importance);
+  const handleFeatureChange = (name: string, value: string | number) => {
+    handleInputsChange({ [name]: value });
   };
 
-  const handleFeatureChange = (name: string, value: string | number) => {
+  const handleInputsChange = (updates: { [key: string]: string | number }) => {
     // Update the input data state
-    const updatedInputData = { ...inputData, [name]: value };
+    const updatedInputData = { ...inputData, ...updates };
     setInputData(updatedInputData);
+    predictionInputRef.current = updatedInputData;
 
-    if (treeData) {
-      try {
-        // Predict the outcome based on the updated input data
-        const result = predictFromTree(treeData, updatedInputData);
-        setPrediction(result.prediction);
-        setConfidence(result.confidence);
-
-        // Highlight the decision path in the tree
-        highlightDecisionPath(treeData, updatedInputData);
-      } catch (error) {
-        console.error("Prediction error:", error);
-      }
+    if (activeTree) {
+      updatePrediction(activeTree, updatedInputData);
+    }
+    if (displayedTree) {
+      setSelectedPath(getDecisionPath(displayedTree, updatedInputData));
     }
   };
 
-  const highlightDecisionPath = (tree: TreeNode, input: { [key: string]: string | number }) => {
-    if (!tree) return;
-    
-    // Create hierarchy from tree data
-    const hierarchy = d3.hierarchy(tree);
-    
-    // Find the path through the tree based on input values
+  // Highlights a root-to-node path using the drawn tree's hierarchy nodes
+  const selectNodes = (nodes: TreeNode[]) => {
+    if (!displayedTree) return;
     const path: d3.HierarchyNode<TreeNode>[] = [];
-    let currentNode = hierarchy;
-    
-    // Add the root node
-    path.push(currentNode);
-    
-    // Traverse the tree until we reach a leaf node
-    while (currentNode.children && currentNode.children.length > 0) {
-      const feature = currentNode.data.feature;
-      if (!feature || !(feature in input)) {
-        break;
-      }
-      
-      const value = input[feature];
-      const threshold = currentNode.data.threshold;
-      const isNumeric = typeof threshold === 'number';
-      
-      let nextNode;
-      if (isNumeric) {
-        nextNode = Number(value) <= Number(threshold)
-          ? currentNode.children[0]
-          : currentNode.children[1];
-      } else {
-        nextNode = String(value) === String(threshold)
-          ? currentNode.children[0]
-          : currentNode.children[1];
-      }
-      
-      if (!nextNode) break;
-      
-      path.push(nextNode);
-      currentNode = nextNode;
+    let current: d3.HierarchyNode<TreeNode> | undefined = d3.hierarchy(displayedTree);
+    for (const node of nodes) {
+      if (!current || current.data !== node) break;
+      path.push(current);
+      current = current.children?.find(child => child.data === nodes[path.length]);
     }
-    
-    // Set this as the selected path
     setSelectedPath(path);
-    
-    // Log the path for debugging
-    console.log("Decision Path:", path.map(node => 
-      node.data.feature ? `${node.data.feature} ${node.data.condition || ''}` : `Prediction: ${node.data.name}`
-    ));
   };
 
+  const selectRule = (rule: TreeRule) => selectNodes(rule.path);
+
+  const downloadFile = (contents: string, type: string, filename: string) =>
+    downloadBlob(new Blob([contents], { type }), filename);
+
   const exportTree = () => {
-    const json = JSON.stringify(treeData, null, 2);
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `${dataset.replace(/\s+/g, '_')}_decision_tree.json`;
-    link.click();
+    if (!activeTree) return;
+
+    const alpha = pruningPath[Math.min(pruningStep, pruningPath.length - 1)]?.alpha || 0;
+    const model = serializeModel(
+      activeTree,
+      treeOptions,
+      importedModel?.model.dataset || describeDataset(dataset, targetColumn, modelData),
+      Math.max(alpha, importedModel?.model.pruningAlpha || 0)
+    );
+    const json = JSON.stringify(model, null, 2);
+    downloadFile(json, 'application/json', `${dataset.replace(/\s+/g, '_')}_decision_tree.json`);
+  };
+
+  const exportTreePmml = () => {
+    if (!activeTree) return;
+    const pmml = exportPmml(activeTree, modelData, targetColumn, `${dataset} ${targetColumn} tree`);
+    downloadFile(pmml, 'application/xml', `${dataset.replace(/\s+/g, '_')}_decision_tree.pmml`);
+  };
+
+  const exportTreeDiagram = (format: 'dot' | 'mermaid') => {
+    if (!activeTree) return;
+    const filename = `${dataset.replace(/\s+/g, '_')}_decision_tree`;
+    if (format === 'dot') {
+      downloadFile(exportDot(activeTree, `${dataset} ${targetColumn} tree`), 'text/vnd.graphviz', `${filename}.dot`);
+    } else {
+      downloadFile(exportMermaid(activeTree), 'text/plain', `${filename}.mmd`);
+    }
+  };
+
+  const importModel = async (file: File) => {
+    try {
+      const text = await file.text();
+      // PMML is XML; everything else is expected to be our JSON format
+      const { model, tree } = text.trimStart().startsWith('<') ? parsePmml(text) : parseModelFile(text);
+      if (!targetOptions.includes(model.dataset.target)) {
+        throw new Error(`This model predicts "${model.dataset.target}", which is not a column of ${dataset}`);
+      }
+
+      if (model.dataset.target !== targetColumn) applyTarget(model.dataset.target);
+      // Mirror the saved settings in the panel; retraining stays off until the model is discarded
+      setTreeOptions(model.hyperparameters);
+      setImportedModel({
+        model,
+        fingerprintMatches: fingerprintDataset(modelData).hash === model.dataset.fingerprint.hash,
+        missingFeatures: modelFeatures(model.tree).filter(feature => !targetOptions.includes(feature))
+      });
+      setTreeData(tree);
+      setPruningStep(0);
+      setTraining(false);
+      setImportError(null);
+    } catch (importErr) {
+      console.error("Error importing model:", importErr);
+      setImportError(importErr instanceof Error ? importErr.message : 'Failed to import model');
+    }
   };
 
   useEffect(() => {
@@ -343,13 +706,24 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
       // Limit to top 10 features for clarity if there are many
       const topFeatures = featureImportance.slice(0, 10);
 
+      // Permutation drops are in accuracy (a share) or R² (a plain number) and can be negative
+      const r2Drop = importanceMethod === 'permutation' && activeTree?.task === 'regression';
+      const formatValue = r2Drop ? d3.format(".3f") : d3.format(".1%");
+      const axisLabel = importanceMethod === 'impurity'
+        ? "Share of Impurity Decrease"
+        : r2Drop ? "Drop in Holdout R²" : "Drop in Holdout Accuracy";
+
       // Scale for x-axis (importance values)
       const x = d3
         .scaleLinear()
-        .domain([0, d3.max(topFeatures, (d) => d.importance) || 0.1])
+        .domain([
+          Math.min(0, d3.min(topFeatures, (d) => d.importance - (d.std || 0)) || 0),
+          d3.max(topFeatures, (d) => d.importance + (d.std || 0)) || 0.1
+        ])
         .range([0, width]);
 
-      // Scale for y-axis (features)
+      // Scale for y-axis (features), keyed by column and labelled for display
+      const labelOf = new Map(topFeatures.map((d) => [d.feature, d.label]));
       const y = d3
         .scaleBand()
         .domain(topFeatures.map((d) => d.feature))
@@ -360,7 +734,7 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
       svg
         .append("g")
         .attr("transform", `translate(0,${height})`)
-        .call(d3.axisBottom(x).ticks(5).tickFormat(d3.format(".1~%")))
+        .call(d3.axisBottom(x).ticks(5).tickFormat(r2Drop ? d3.format(".2~f") : d3.format(".1~%")))
         .selectAll("text")
         .style("font-size", "12px")
         .attr("transform", "rotate(-45)")
@@ -370,14 +744,19 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
       svg.append("text")
         .attr("transform", `translate(${width/2}, ${height + 40})`)
         .style("text-anchor", "middle")
-        .text("Relative Importance");
+        .text(axisLabel);
+
+      // Clicking a feature opens its partial dependence plot
+      const showDependence = (column: string) => setPdpFeature(column);
 
       // Add y-axis
       svg
         .append("g")
-        .call(d3.axisLeft(y))
-        .selectAll("text")
-        .style("font-size", "12px");
+        .call(d3.axisLeft(y).tickFormat((column) => labelOf.get(column) || column))
+        .selectAll<SVGTextElement, string>("text")
+        .style("font-size", "12px")
+        .style("cursor", "pointer")
+        .on("click", (_, column) => showDependence(column));
 
       // Add bars
       svg
@@ -385,32 +764,48 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
         .data(topFeatures)
         .join("rect")
         .attr("class", "bar")
-        .attr("x", 0)
+        .style("cursor", "pointer")
+        .on("click", (_, d) => showDependence(d.feature))
+        .attr("x", x(0))
         .attr("y", (d) => y(d.feature) || 0)
         .attr("width", 0) // Start at 0 for animation
         .attr("height", y.bandwidth())
-        .attr("fill", "#4f46e5")
+        .attr("fill", (d) => (d.importance >= 0 ? "#4f46e5" : "#ef4444"))
         .transition()
         .duration(800)
-        .attr("width", (d) => x(d.importance));
-        
+        .attr("x", (d) => x(Math.min(0, d.importance)))
+        .attr("width", (d) => Math.abs(x(d.importance) - x(0)));
+
+      // Error bars: one standard deviation across permutation repeats
+      svg
+        .selectAll(".error-bar")
+        .data(topFeatures.filter((d) => d.std !== undefined))
+        .join("line")
+        .attr("class", "error-bar")
+        .attr("x1", (d) => x(d.importance - (d.std || 0)))
+        .attr("x2", (d) => x(d.importance + (d.std || 0)))
+        .attr("y1", (d) => (y(d.feature) || 0) + y.bandwidth() / 2)
+        .attr("y2", (d) => (y(d.feature) || 0) + y.bandwidth() / 2)
+        .style("stroke", "#111827")
+        .style("stroke-width", "1.5px");
+
       // Add values at the end of bars
       svg
         .selectAll(".value")
         .data(topFeatures)
         .join("text")
         .attr("class", "value")
-        .attr("x", (d) => x(d.importance) + 5)
+        .attr("x", (d) => x(Math.max(0, d.importance) + (d.std || 0)) + 5)
         .attr("y", (d) => (y(d.feature) || 0) + y.bandwidth() / 2)
         .attr("dy", ".35em")
-        .text((d) => (d.importance * 100).toFixed(1) + "%")
+        .text((d) => formatValue(d.importance) + (d.std !== undefined ? ` ± ${formatValue(d.std)}` : ""))
         .style("font-size", "10px")
         .style("fill", "#4f46e5");
     }
-  }, [featureImportance]);
+  }, [featureImportance, importanceMethod, activeTree]);
 
   useEffect(() => {
-    if (!svgRef.current || !treeData || loading) return;
+    if (!svgRef.current || !displayedTree || loading) return;
 
     // Clear and re-render the tree visualization
     d3.select(svgRef.current).selectAll("*").remove();
@@ -431,11 +826,12 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
       .append("g")
       .attr("transform", `translate(${margin.left},${margin.top})`);
 
-    const svgGroup = svg.append("g");
+    // Image exports find this layer to undo the zoom transform
+    const svgGroup = svg.append("g").attr("class", "zoom-layer");
 
     const treemap = d3.tree<TreeNode>().size([height, width]).nodeSize([60, 120]);
 
-    const root = d3.hierarchy(treeData, (d) => d.children);
+    const root = d3.hierarchy(displayedTree, (d) => d.children);
     const treeLayout = treemap(root);
 
     const diagonal = d3
@@ -443,6 +839,11 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
       .x((d) => d.y)
       .y((d) => d.x);
 
+    // Link width follows the training rows flowing into the child
+    const rootSamples = displayedTree.samples || 0;
+    const linkWidth = (node: TreeNode) =>
+      rootSamples > 0 && node.samples !== undefined ? `${Math.max(1, (node.samples / rootSamples) * 24)}px` : "2px";
+
     // Add links
     svgGroup
       .append("g")
@@ -452,13 +853,14 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
       .join("path")
       .attr("class", "link")
       .attr("d", diagonal)
+      // Unhighlighted styles, so exports can leave out the decision path
+      .attr("data-base-stroke", "#ccc")
+      .attr("data-base-stroke-width", (d) => linkWidth(d.target.data))
       .style("fill", "none")
       .style("stroke", (d) =>
         selectedPath.some((node) => node.data === d.target.data) ? "#4f46e5" : "#ccc"
       )
-      .style("stroke-width", (d) =>
-        selectedPath.some((node) => node.data === d.target.data) ? "3px" : "2px"
-      );
+      .style("stroke-width", (d) => linkWidth(d.target.data));
 
     // Add nodes
     const nodes = svgGroup
@@ -484,13 +886,22 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
             .style("border-radius", "5px")
             .style("box-shadow", "0 0 10px rgba(0,0,0,0.1)")
             .style("left", `${event.pageX + 15}px`)
-            .style("top", `${event.pageY - 28}px`)
-            .html(`
-              <div class="font-semibold">${d.data.feature || d.data.name}</div>
-              ${d.data.condition ? `<div>${d.data.condition}</div>` : ''}
-              ${d.data.confidence ? `<div>Confidence: ${(d.data.confidence * 100).toFixed(1)}%</div>` : ''}
-              ${d.data.samples ? `<div>Samples: ${d.data.samples}</div>` : ''}
-            `);
+            .style("top", `${event.pageY - 28}px`);
+
+          // Names and class labels can come from uploaded files, so they go in as text, never HTML
+          const lines = [
+            d.data.condition,
+            d.data.mean !== undefined
+              ? `Estimate: ${formatEstimate(d.data.mean)} ± ${formatEstimate(d.data.std || 0)}`
+              : d.data.confidence ? `Confidence: ${(d.data.confidence * 100).toFixed(1)}%` : '',
+            d.data.samples ? `Samples: ${d.data.samples}` : '',
+            d.data.mean === undefined && d.data.distribution
+              ? Object.entries(d.data.distribution).map(([label, count]) => `${label}: ${count}`).join(', ')
+              : ''
+          ].filter(Boolean);
+          tooltip.selectAll("*").remove();
+          tooltip.append("div").attr("class", "font-semibold").text(d.data.name);
+          lines.forEach((line) => tooltip.append("div").text(line!));
         }
       })
       .on("mouseout", () => {
@@ -504,6 +915,7 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
       })
       .on("click", (event, d) => {
         event.stopPropagation(); // Stop event propagation to prevent parent handlers
+        if (manualTree) setManualNode(d.data);
         
         if (d.data.feature) {
           // For a decision node, find the path from root to this node
@@ -545,36 +957,56 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
         }
       });
 
-    // Add circles for nodes
+    // Regression nodes have no classes; they are shaded by their mean instead
+    const means = treeLayout.descendants().map((d) => d.data.mean).filter((m): m is number => m !== undefined);
+    const meanColor = d3.scaleSequential(d3.interpolateBlues)
+      .domain(means.length > 0 ? (d3.extent(means) as [number, number]) : [0, 1]);
+    const hasDistribution = (node: TreeNode) => node.mean === undefined && !!node.distribution;
+
     nodes
       .append("circle")
-      .attr("r", (d) => {
-        const confidence = d.data.confidence || 0.5;
-        return 10 + confidence * 10;
-      })
-      .style("fill", (d) => {
-        const confidence = d.data.confidence || 0.5;
-        return selectedPath.some((node) => node.data === d.data)
-          ? "#4f46e5"
-          : d3.interpolateBlues(confidence);
-      })
-      .style("stroke", "#4f46e5")
-      .style("stroke-width", "2px")
+      .attr("r", NODE_RADIUS + 2)
+      .attr("data-base-stroke", "#6b7280")
+      .attr("data-base-stroke-width", "1.5px")
+      .style("fill", (d) =>
+        d.data.mean !== undefined
+          ? meanColor(d.data.mean)
+          : hasDistribution(d.data) ? "white" : d3.interpolateBlues(d.data.confidence || 0.5)
+      )
+      .style("stroke", (d) => (selectedPath.some((node) => node.data === d.data) ? "#4f46e5" : "#6b7280"))
+      .style("stroke-width", (d) => (selectedPath.some((node) => node.data === d.data) ? "4px" : "1.5px"))
+      .style("cursor", "pointer");
+
+    // Pie of the class distribution of the rows reaching each node
+    const pie = d3.pie<[string, number]>().value((d) => d[1]).sort(null);
+    const arc = d3.arc<d3.PieArcDatum<[string, number]>>().innerRadius(0).outerRadius(NODE_RADIUS);
+    nodes
+      .filter((d) => hasDistribution(d.data))
+      .selectAll(".slice")
+      .data((d) => pie(classColor.domain()
+        .filter((label) => d.data.distribution![label])
+        .map((label): [string, number] => [label, d.data.distribution![label]])))
+      .join("path")
+      .attr("class", "slice")
+      .attr("d", arc)
+      .style("fill", (d) => classColor(d.data[0]))
+      .style("stroke", "white")
+      .style("stroke-width", "0.5px")
       .style("cursor", "pointer");
 
     nodes
       .append("text")
       .attr("dy", "-1.2em")
-      .attr("x", (d) => (d.children ? -13 : 13))
+      .attr("x", (d) => (d.children ? -(NODE_RADIUS + 6) : NODE_RADIUS + 6))
       .style("text-anchor", (d) => (d.children ? "end" : "start"))
       .style("font-size", "12px")
       .style("font-weight", "bold")
-      .text((d) => (d.data.feature ? `${d.data.feature}` : d.data.name));
+      .text((d) => d.data.name);
 
     nodes
       .append("text")
       .attr("dy", "0em")
-      .attr("x", (d) => (d.children ? -13 : 13))
+      .attr("x", (d) => (d.children ? -(NODE_RADIUS + 6) : NODE_RADIUS + 6))
       .style("text-anchor", (d) => (d.children ? "end" : "start"))
       .style("font-size", "11px")
       .text((d) => d.data.condition || "");
@@ -582,11 +1014,14 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
     nodes
       .append("text")
       .attr("dy", "1.2em")
-      .attr("x", (d) => (d.children ? -13 : 13))
+      .attr("x", (d) => (d.children ? -(NODE_RADIUS + 6) : NODE_RADIUS + 6))
       .style("text-anchor", (d) => (d.children ? "end" : "start"))
       .style("font-size", "10px")
       .style("fill", "#6b7280")
       .text((d) => {
+        if (d.data.mean !== undefined) {
+          return `Estimate: ${formatEstimate(d.data.mean)} ± ${formatEstimate(d.data.std || 0)}`;
+        }
         const confidence = d.data.confidence;
         return confidence ? `Confidence: ${(confidence * 100).toFixed(1)}%` : "";
       });
@@ -594,12 +1029,12 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
     nodes
       .append("text")
       .attr("dy", "2.4em")
-      .attr("x", (d) => (d.children ? -13 : 13))
+      .attr("x", (d) => (d.children ? -(NODE_RADIUS + 6) : NODE_RADIUS + 6))
       .style("text-anchor", (d) => (d.children ? "end" : "start"))
       .style("font-size", "10px")
       .style("fill", "#6b7280")
       .text((d) => (d.data.samples ? `Samples: ${d.data.samples}` : ""));
-  }, [treeData, selectedPath, loading, dimensions, inputData]);
+  }, [displayedTree, selectedPath, loading, dimensions, inputData, manualTree, classColor]);
 
   useEffect(() => {
     const handleResize = () => {
@@ -674,8 +1109,13 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
 
   if (loading) {
     return (
-      <div className="flex items-center justify-center h-64">
+      <div className="flex flex-col items-center justify-center h-64 gap-3">
         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-500"></div>
+        {trainingProgress && (
+          <p className="text-sm text-gray-500">
+            Building tree: {trainingProgress.nodesExpanded} nodes expanded, depth {trainingProgress.depth} of {treeOptions.maxDepth}
+          </p>
+        )}
       </div>
     );
   }
@@ -709,7 +1149,7 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
                 }`}>
                   {node.data.feature ? (
                     <>
-                      <span className="font-medium">{node.data.feature}</span>
+                      <span className="font-medium">{node.data.name}</span>
                       {node.data.condition && 
                         <span className="ml-1">({node.data.condition})</span>}
                     </>
@@ -727,62 +1167,320 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
 
       {datasetSummary && (
         <div className="bg-white p-4 rounded-lg shadow-lg">
-          <h3 className="text-lg font-semibold">Dataset Summary</h3>
-          <div className="flex flex-wrap gap-4">
-            <p><span className="font-medium">Dataset:</span> {dataset}</p>
-            <p><span className="font-medium">Rows:</span> {datasetSummary.rows}</p>
-            <p><span className="font-medium">Columns:</span> {datasetSummary.columns}</p>
-            {dataset === 'Adult Income' && (
-              <p><span className="font-medium">Prediction Target:</span> Income &gt;50K or &lt;=50K</p>
-            )}
-            {dataset === 'Heart Disease' && (
-              <p><span className="font-medium">Prediction Target:</span> Heart Disease Presence (1) or Absence (0)</p>
-            )}
-            {dataset === 'Loan Approval' && (
-              <p><span className="font-medium">Prediction Target:</span> Loan Approved (Y) or Rejected (N)</p>
-            )}
+          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+            <h3 className="text-lg font-semibold">Dataset Summary</h3>
+            <div className="flex gap-1 text-sm">
+              {(['summary', 'profile'] as const).map(tab => (
+                <button
+                  key={tab}
+                  onClick={() => setSummaryTab(tab)}
+                  className={`px-3 py-1 rounded-lg border ${
+                    summaryTab === tab
+                      ? 'bg-indigo-600 text-white border-indigo-600'
+                      : 'border-gray-300 text-gray-700'
+                  }`}
+                >
+                  {tab === 'summary' ? 'Summary' : 'Profile'}
+                </button>
+              ))}
+            </div>
           </div>
+          {summaryTab === 'profile' ? (
+            <DatasetProfilePanel
+              data={modelData}
+              targetColumn={targetColumn}
+              targetCategorical={treeOptions.task === 'classification'}
+            />
+          ) : (
+            <div className="flex flex-wrap gap-4">
+              <p><span className="font-medium">Dataset:</span> {dataset}</p>
+              <p><span className="font-medium">Rows:</span> {datasetSummary.rows}</p>
+              <p><span className="font-medium">Columns:</span> {datasetSummary.columns}</p>
+              {!customDataset && targetColumn === getTargetColumn(dataset) && (
+                <>
+                  {dataset === 'Adult Income' && (
+                    <p><span className="font-medium">Prediction Target:</span> Income &gt;50K or &lt;=50K</p>
+                  )}
+                  {dataset === 'Heart Disease' && (
+                    <p><span className="font-medium">Prediction Target:</span> Heart Disease Presence (1) or Absence (0)</p>
+                  )}
+                  {dataset === 'Loan Approval' && (
+                    <p><span className="font-medium">Prediction Target:</span> Loan Approved (Y) or Rejected (N)</p>
+                  )}
+                </>
+              )}
+              <label className="flex items-center gap-2">
+                <span className="font-medium">Target Column:</span>
+                <select
+                  value={targetColumn}
+                  onChange={(e) => handleTargetChange(e.target.value)}
+                  className="rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  {targetOptions.map(column => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+              </label>
+              {treeData?.task === 'regression' ? (
+                <p><span className="font-medium">Split Criterion:</span> Variance reduction (MSE)</p>
+              ) : treeData?.criterion && (
+                <p><span className="font-medium">Split Criterion:</span> {getCriterionLabel(treeData.criterion)}</p>
+              )}
+            </div>
+          )}
         </div>
       )}
 
-      {featureImportance.length > 0 && (
+      {activeTree && (
         <div className="bg-white p-4 rounded-lg shadow-lg">
-          <h3 className="text-lg font-semibold">Feature Importance</h3>
-          <p className="text-sm text-gray-600 mb-2">Relative influence of each feature on the model's predictions</p>
-          <svg ref={featureImportanceRef}></svg>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-lg font-semibold">Feature Importance</h3>
+            <div className="flex gap-1 text-sm">
+              {IMPORTANCE_METHODS.map(method => (
+                <button
+                  key={method.value}
+                  onClick={() => setImportanceMethod(method.value)}
+                  className={`px-3 py-1 rounded-lg border ${
+                    importanceMethod === method.value
+                      ? 'bg-indigo-600 text-white border-indigo-600'
+                      : 'border-gray-300 text-gray-700'
+                  }`}
+                >
+                  {method.label}
+                </button>
+              ))}
+            </div>
+            {forest && (
+              <div className="flex gap-1 text-sm">
+                {(['tree', 'forest'] as const).map(source => (
+                  <button
+                    key={source}
+                    onClick={() => setImportanceSource(source)}
+                    className={`px-3 py-1 rounded-lg border ${
+                      importanceSource === source
+                        ? 'bg-indigo-600 text-white border-indigo-600'
+                        : 'border-gray-300 text-gray-700'
+                    }`}
+                  >
+                    {source === 'tree' ? 'Single tree' : `Forest average (${forest.trees.length})`}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <p className="text-sm text-gray-600 mb-2">
+            {importanceMethod === 'impurity'
+              ? "Share of the total impurity decrease from each feature's splits, weighted by the training rows reaching them"
+              : `How much the holdout score drops when each feature's values are shuffled (mean ± standard deviation over 5 repeats, ${testData.length} test rows)`}
+          </p>
+          {featureImportance.length > 0 ? (
+            <svg ref={featureImportanceRef}></svg>
+          ) : (
+            <p className="text-sm text-gray-500">
+              {importanceMethod === 'permutation' && testData.length === 0
+                ? 'Permutation importance needs a holdout set.'
+                : 'The tree has no splits yet.'}
+            </p>
+          )}
         </div>
       )}
 
-      <div className="bg-white p-4 rounded-lg shadow-lg">
-        <button
-          onClick={exportTree}
-          className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg shadow hover:bg-indigo-700"
-        >
-          <Download className="w-5 h-5" />
-          Export Tree as JSON
-        </button>
+      {activeTree?.task === 'regression' ? (
+        <RegressionEvaluationPanel
+          tree={activeTree}
+          testData={testData}
+          trainSize={trainData.length}
+          targetColumn={targetColumn}
+          testFraction={testFraction}
+          onTestFractionChange={setTestFraction}
+        />
+      ) : activeTree && (
+        <EvaluationPanel
+          tree={activeTree}
+          testData={testData}
+          trainSize={trainData.length}
+          targetColumn={targetColumn}
+          testFraction={testFraction}
+          onTestFractionChange={setTestFraction}
+        />
+      )}
+
+      {pruningPath.length > 1 && (
+        <PruningPanel
+          path={pruningPath}
+          selectedStep={Math.min(pruningStep, pruningPath.length - 1)}
+          onStepChange={setPruningStep}
+          testData={testData}
+          targetColumn={targetColumn}
+        />
+      )}
+
+      <div className="bg-white p-4 rounded-lg shadow-lg space-y-3">
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={exportTree}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg shadow hover:bg-indigo-700"
+          >
+            <Download className="w-5 h-5" />
+            Export Model as JSON
+          </button>
+          <button
+            onClick={exportTreePmml}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg shadow hover:bg-indigo-700"
+          >
+            <Download className="w-5 h-5" />
+            Export PMML
+          </button>
+          <button
+            onClick={() => exportTreeDiagram('dot')}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg shadow hover:bg-indigo-700"
+          >
+            <Download className="w-5 h-5" />
+            Export Graphviz DOT
+          </button>
+          <button
+            onClick={() => exportTreeDiagram('mermaid')}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg shadow hover:bg-indigo-700"
+          >
+            <Download className="w-5 h-5" />
+            Export Mermaid
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="flex items-center gap-2 px-4 py-2 border border-indigo-600 text-indigo-600 rounded-lg hover:bg-indigo-50"
+          >
+            <Upload className="w-5 h-5" />
+            Import Model
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".json,.pmml,.xml,application/json,application/xml"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importModel(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+        {importError && (
+          <p className="text-sm text-red-600">Import failed: {importError}</p>
+        )}
+        {importedModel && (
+          <div className="p-3 bg-amber-50 rounded-lg text-sm text-amber-900 space-y-1">
+            <p>
+              Showing an imported model trained on <span className="font-medium">{importedModel.model.dataset.name}</span>{' '}
+              ({importedModel.model.dataset.fingerprint.rows} rows, saved {new Date(importedModel.model.createdAt).toLocaleString()}).
+              Settings changes won't retrain it.
+            </p>
+            {!importedModel.fingerprintMatches && (
+              <p>The loaded data differs from the data it was trained on, so holdout metrics may not be comparable.</p>
+            )}
+            {importedModel.missingFeatures.length > 0 && (
+              <p>Columns missing from this dataset: {importedModel.missingFeatures.join(', ')}</p>
+            )}
+            <button
+              onClick={() => setImportedModel(null)}
+              className="text-indigo-600 hover:text-indigo-800"
+            >
+              Discard and retrain on the loaded data
+            </button>
+          </div>
+        )}
       </div>
 
+      {activeTree && (
+        <CodeExportPanel tree={activeTree} data={modelData} targetColumn={targetColumn} datasetName={dataset} />
+      )}
+
+      <ModelSettingsPanel
+        options={treeOptions}
+        onOptionsChange={setTreeOptions}
+        regressionAvailable={regressionAvailable}
+      />
+
+      <ForestPanel
+        unavailableReason={
+          treeOptions.task === 'regression' ? 'Random forests are only available for classification targets.' : undefined
+        }
+        enabled={forestEnabled}
+        onEnabledChange={setForestEnabled}
+        options={forestOptions}
+        onOptionsChange={setForestOptions}
+        forest={forest}
+        training={forestTraining}
+        progress={forestProgress}
+        onCancel={cancelForestTraining}
+        vote={forestVote}
+        forestAccuracy={holdoutAccuracies?.forest ?? null}
+        treeAccuracy={holdoutAccuracies?.tree ?? null}
+        viewedTree={viewedForestTree}
+        onViewedTreeChange={setViewedForestTree}
+      />
+
+      {training && (
+        <div className="flex items-center justify-between gap-4 bg-indigo-50 p-4 rounded-lg">
+          <div className="flex items-center gap-3">
+            <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-indigo-500"></div>
+            <p className="text-sm text-indigo-800">
+              Retraining{trainingProgress
+                ? `: ${trainingProgress.nodesExpanded} nodes expanded, depth ${trainingProgress.depth} of ${treeOptions.maxDepth}`
+                : '...'}
+            </p>
+          </div>
+          <button
+            onClick={cancelTraining}
+            className="flex items-center gap-1 text-sm text-indigo-700 hover:text-indigo-900"
+          >
+            <X className="w-4 h-4" />
+            Cancel and keep current tree
+          </button>
+        </div>
+      )}
+
       <div className="bg-white p-4 rounded-lg shadow-lg">
         <div className="flex items-center gap-2 mb-4">
           <Sliders className="w-5 h-5 text-indigo-600" />
           <h3 className="text-lg font-semibold">Interactive Feature Controls:</h3>
         </div>
         {prediction && (
-          <div className="mb-4 p-4 bg-indigo-50 rounded-lg">
-            <h4 className="font-semibold text-indigo-900">Current Prediction:</h4>
-            <p className="text-indigo-700">
-              {prediction} 
-              {confidence && ` (${(confidence * 100).toFixed(1)}% confidence)`}
-            </p>
+          <div className="mb-4 grid grid-cols-1 lg:grid-cols-2 gap-4 items-start">
+            {predictedLeaf?.mean !== undefined ? (
+              <div className="p-4 bg-indigo-50 rounded-lg">
+                <h4 className="font-semibold text-indigo-900">Estimated {targetColumn}:</h4>
+                <p className="text-indigo-700">
+                  {formatEstimate(predictedLeaf.mean)}
+                  {` ± ${formatEstimate(predictedLeaf.std || 0)} (standard deviation across ${predictedLeaf.samples} training rows in this leaf)`}
+                </p>
+              </div>
+            ) : (
+              <div className="p-4 bg-indigo-50 rounded-lg">
+                <h4 className="font-semibold text-indigo-900">Current Prediction:</h4>
+                <p className="text-indigo-700">
+                  {prediction} 
+                  {confidence && ` (${(confidence * 100).toFixed(1)}% confidence)`}
+                </p>
+              </div>
+            )}
+            {activeTree && <ShapWaterfall tree={activeTree} input={inputData} targetColumn={targetColumn} />}
           </div>
         )}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
           {features.map((feature) => (
             <div key={feature.name} className="space-y-2">
-              <label className="block text-sm font-medium text-gray-700">
-                {feature.name}
-              </label>
+              <div className="flex items-center justify-between">
+                <label className="block text-sm font-medium text-gray-700">
+                  {feature.name}
+                </label>
+                <button
+                  onClick={() => setPdpFeature(feature.name)}
+                  className="text-indigo-600 hover:text-indigo-800"
+                  title={`Partial dependence of the prediction on ${feature.name}`}
+                >
+                  <LineChart className="w-4 h-4" />
+                </button>
+              </div>
               {feature.type === 'numeric' ? (
                 <div className="space-y-1">
                   <input
@@ -817,12 +1515,35 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
         </div>
       </div>
 
+      {activeTree && pdpFeature && (
+        <PartialDependencePanel
+          tree={activeTree}
+          data={modelData}
+          features={features}
+          feature={pdpFeature}
+          onFeatureChange={setPdpFeature}
+          input={inputData}
+          targetColumn={targetColumn}
+          onClose={() => setPdpFeature(null)}
+        />
+      )}
+
+      {activeTree && activeTree.task !== 'regression' && features.length > 0 && (
+        <CounterfactualPanel
+          tree={activeTree}
+          input={inputData}
+          features={features}
+          targetColumn={targetColumn}
+          onApply={handleInputsChange}
+        />
+      )}
+
       <div className="bg-white p-4 rounded-lg shadow-lg">
         <h3 className="text-lg font-semibold mb-2">How to Read This Decision Tree:</h3>
         <ul className="list-disc pl-5 space-y-2 text-gray-700">
           <li>Each node represents a decision point or final prediction</li>
-          <li>Larger circles indicate higher confidence in the decision</li>
-          <li>Blue color intensity shows confidence level (darker = more confident)</li>
+          <li>Each node's pie shows the classes of the training rows that reach it; regression nodes are shaded by their mean (darker = higher)</li>
+          <li>Link thickness is proportional to the number of training rows flowing through it</li>
           <li>Hover over nodes to see detailed information</li>
           <li>Click nodes to highlight the complete decision path</li>
           <li>Use mouse wheel to zoom in/out, drag to pan around</li>
@@ -831,6 +1552,28 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
       </div>
 
       <div className="w-full overflow-x-auto bg-white p-4 rounded-lg shadow-inner" style={{ minHeight: '600px' }}>
+        {viewedForestTree !== null && forest && (
+          <p className="text-sm text-indigo-700 mb-2">
+            Showing forest tree {viewedForestTree + 1} of {forest.trees.length} (trained on a bootstrap sample)
+          </p>
+        )}
+        {classColor.domain().length > 0 && displayedTree?.task !== 'regression' && (
+          <div className="flex flex-wrap items-center gap-3 mb-2 text-sm text-gray-700">
+            <span className="font-medium">{targetColumn}:</span>
+            {classColor.domain().map(label => (
+              <span key={label} className="flex items-center gap-1">
+                <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: classColor(label) }}></span>
+                {label}
+              </span>
+            ))}
+          </div>
+        )}
+        <ImageExportControls
+          treeRef={svgRef}
+          importanceRef={featureImportanceRef}
+          importanceAvailable={featureImportance.length > 0}
+          filename={`${dataset.replace(/\s+/g, '_')}_decision_tree`}
+        />
         <svg 
           ref={svgRef} 
           className="w-full"
@@ -850,16 +1593,78 @@ const DecisionTree: React.FC<DecisionTreeProps> = ({ dataset }) => {
           }}
         ></div>
       </div>
+
+      {activeTree && trainData.length > 0 && (
+        <ManualTreePanel
+          tree={manualTree}
+          automaticTree={activeTree}
+          trainData={trainData}
+          testData={testData}
+          targetColumn={targetColumn}
+          options={treeOptions}
+          selectedNode={manualNode}
+          onChange={tree => {
+            setManualTree(tree);
+            setManualNode(null);
+          }}
+        />
+      )}
+
+      {displayedTree && (
+        <RuleListPanel
+          tree={displayedTree}
+          targetColumn={targetColumn}
+          datasetName={dataset}
+          selectedLeaf={selectedPath.length > 0 && !selectedPath[selectedPath.length - 1].children
+            ? selectedPath[selectedPath.length - 1].data
+            : null}
+          onSelectRule={selectRule}
+        />
+      )}
+
+      {activeTree && activeTree.task !== 'regression' && modelData.length > 0 && (
+        <FairnessPanel
+          tree={activeTree}
+          data={testData.length > 0 ? testData : modelData}
+          dataLabel={testData.length > 0 ? 'the holdout set' : 'the full dataset'}
+          targetColumn={targetColumn}
+          onSelectSplit={split => selectNodes(split.path)}
+        />
+      )}
+
+      {activeTree && features.length > 0 && (
+        <BatchScoringPanel
+          tree={activeTree}
+          features={features}
+          targetColumn={targetColumn}
+          datasetName={dataset}
+          onLoadRow={handleInputsChange}
+        />
+      )}
+
+      {activeTree && trainData.length > 0 && (
+        <ModelComparisonPanel
+          tree={activeTree}
+          trainData={trainData}
+          testData={testData}
+          targetColumn={targetColumn}
+          baseOptions={treeOptions}
+          input={inputData}
+        />
+      )}
       
       {hoveredNode && (
         <div className="bg-indigo-50 p-4 rounded-lg">
           <h4 className="font-semibold text-indigo-900">Node Details</h4>
           <p className="text-indigo-700">
-            {hoveredNode.data.feature && `Feature: ${hoveredNode.data.feature}`}
+            {hoveredNode.data.feature
+              ? `Feature: ${hoveredNode.data.name}`
+              : `Prediction: ${hoveredNode.data.name}`}
             {hoveredNode.data.condition && ` - ${hoveredNode.data.condition}`}
-            {hoveredNode.data.name && ` → ${hoveredNode.data.name}`}
-            {hoveredNode.data.confidence && 
-              ` (${(hoveredNode.data.confidence * 100).toFixed(1)}% confidence)`}
+            {hoveredNode.data.mean !== undefined
+              ? ` (estimate ${formatEstimate(hoveredNode.data.mean)} ± ${formatEstimate(hoveredNode.data.std || 0)})`
+              : hoveredNode.data.confidence &&
+                ` (${(hoveredNode.data.confidence * 100).toFixed(1)}% confidence)`}
           </p>
         </div>
       )}
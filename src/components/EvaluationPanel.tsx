@@ -0,0 +1,272 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { Target } from 'lucide-react';
+import { DataPoint, TreeNode } from '../utils/dataLoader';
+import { evaluateTree, computeCurves, CurvePoint } from '../utils/evaluation';
+
+interface EvaluationPanelProps {
+  tree: TreeNode;
+  testData: DataPoint[];
+  trainSize: number;
+  targetColumn: string;
+  testFraction: number;
+  onTestFractionChange: (fraction: number) => void;
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const EvaluationPanel: React.FC<EvaluationPanelProps> = ({
+  tree,
+  testData,
+  trainSize,
+  targetColumn,
+  testFraction,
+  onTestFractionChange
+}) => {
+  const curveRef = useRef<SVGSVGElement>(null);
+  const [curveType, setCurveType] = useState<'roc' | 'pr'>('roc');
+  const [positiveClass, setPositiveClass] = useState<string>('');
+
+  const evaluation = useMemo(
+    () => evaluateTree(tree, testData, targetColumn),
+    [tree, testData, targetColumn]
+  );
+
+  // Default to the minority class, which is usually the one of interest
+  useEffect(() => {
+    if (evaluation.classes.includes(positiveClass)) return;
+    const bySupport = [...evaluation.classMetrics].sort((a, b) => a.support - b.support);
+    setPositiveClass(bySupport[0]?.label || '');
+  }, [evaluation, positiveClass]);
+
+  const curves = useMemo(
+    () => positiveClass ? computeCurves(tree, testData, targetColumn, positiveClass) : null,
+    [tree, testData, targetColumn, positiveClass]
+  );
+
+  useEffect(() => {
+    if (!curveRef.current || !curves) return;
+
+    d3.select(curveRef.current).selectAll("*").remove();
+
+    const margin = { top: 20, right: 20, bottom: 50, left: 60 };
+    const width = 360 - margin.left - margin.right;
+    const height = 320 - margin.top - margin.bottom;
+
+    const svg = d3
+      .select(curveRef.current)
+      .attr("width", width + margin.left + margin.right)
+      .attr("height", height + margin.top + margin.bottom)
+      .append("g")
+      .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    const x = d3.scaleLinear().domain([0, 1]).range([0, width]);
+    const y = d3.scaleLinear().domain([0, 1]).range([height, 0]);
+
+    svg
+      .append("g")
+      .attr("transform", `translate(0,${height})`)
+      .call(d3.axisBottom(x).ticks(5).tickFormat(d3.format(".0%")));
+
+    svg.append("g").call(d3.axisLeft(y).ticks(5).tickFormat(d3.format(".0%")));
+
+    svg.append("text")
+      .attr("transform", `translate(${width / 2}, ${height + 40})`)
+      .style("text-anchor", "middle")
+      .style("font-size", "12px")
+      .text(curveType === 'roc' ? "False Positive Rate" : "Recall");
+
+    svg.append("text")
+      .attr("transform", "rotate(-90)")
+      .attr("x", -height / 2)
+      .attr("y", -45)
+      .style("text-anchor", "middle")
+      .style("font-size", "12px")
+      .text(curveType === 'roc' ? "True Positive Rate" : "Precision");
+
+    // Chance reference line
+    if (curveType === 'roc') {
+      svg.append("line")
+        .attr("x1", x(0))
+        .attr("y1", y(0))
+        .attr("x2", x(1))
+        .attr("y2", y(1))
+        .style("stroke", "#d1d5db")
+        .style("stroke-dasharray", "4 4");
+    }
+
+    const points = curveType === 'roc' ? curves.roc : curves.pr;
+    const line = d3
+      .line<CurvePoint>()
+      .x((d) => x(d.x))
+      .y((d) => y(d.y))
+      .curve(curveType === 'roc' ? d3.curveLinear : d3.curveStepBefore);
+
+    svg.append("path")
+      .datum(points)
+      .attr("d", line)
+      .style("fill", "none")
+      .style("stroke", "#4f46e5")
+      .style("stroke-width", "2px");
+
+    svg.selectAll(".point")
+      .data(points.slice(1))
+      .join("circle")
+      .attr("class", "point")
+      .attr("cx", (d) => x(d.x))
+      .attr("cy", (d) => y(d.y))
+      .attr("r", 3)
+      .style("fill", "#4f46e5")
+      .append("title")
+      .text((d) => `Threshold ≥ ${formatPercent(d.threshold)}`);
+  }, [curves, curveType]);
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <Target className="w-5 h-5 text-indigo-600" />
+        <h3 className="text-lg font-semibold">Holdout Evaluation</h3>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          Test split
+          <input
+            type="range"
+            min={0.1}
+            max={0.5}
+            step={0.05}
+            value={testFraction}
+            onChange={(e) => onTestFractionChange(Number(e.target.value))}
+          />
+          <span className="font-medium">{formatPercent(testFraction)}</span>
+        </label>
+        <span>Train rows: {trainSize}</span>
+        <span>Test rows: {evaluation.testSize}</span>
+        <span className="text-gray-500">Stratified on {targetColumn}</span>
+      </div>
+
+      {evaluation.testSize === 0 ? (
+        <p className="text-sm text-gray-500">Not enough rows to hold out a test set.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div className="p-4 bg-indigo-50 rounded-lg">
+              <h4 className="font-semibold text-indigo-900">Test Accuracy</h4>
+              <p className="text-2xl text-indigo-700">{formatPercent(evaluation.accuracy)}</p>
+            </div>
+
+            <div>
+              <h4 className="font-semibold text-gray-900 mb-2">Confusion Matrix</h4>
+              <div className="overflow-x-auto">
+                <table className="text-sm border-collapse">
+                  <thead>
+                    <tr>
+                      <th className="p-2 text-left text-gray-500 font-normal">Actual \ Predicted</th>
+                      {evaluation.classes.map(label => (
+                        <th key={label} className="p-2 font-medium text-gray-700">{label}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {evaluation.confusionMatrix.map((row, i) => {
+                      const rowTotal = row.reduce((sum, count) => sum + count, 0) || 1;
+                      return (
+                        <tr key={evaluation.classes[i]}>
+                          <th className="p-2 text-left font-medium text-gray-700">{evaluation.classes[i]}</th>
+                          {row.map((count, j) => (
+                            <td
+                              key={j}
+                              className={`p-2 text-center border border-white ${i === j ? 'text-white' : 'text-gray-900'}`}
+                              style={{
+                                backgroundColor: i === j
+                                  ? d3.interpolateBlues(0.4 + 0.5 * (count / rowTotal))
+                                  : d3.interpolateReds(0.1 + 0.5 * (count / rowTotal))
+                              }}
+                            >
+                              {count}
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-semibold text-gray-900 mb-2">Per-Class Metrics</h4>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-gray-500 border-b">
+                    <th className="py-1 text-left font-normal">Class</th>
+                    <th className="py-1 text-right font-normal">Precision</th>
+                    <th className="py-1 text-right font-normal">Recall</th>
+                    <th className="py-1 text-right font-normal">F1</th>
+                    <th className="py-1 text-right font-normal">Support</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {evaluation.classMetrics.map(metrics => (
+                    <tr key={metrics.label} className="border-b border-gray-100">
+                      <td className="py-1 font-medium">{metrics.label}</td>
+                      <td className="py-1 text-right">{formatPercent(metrics.precision)}</td>
+                      <td className="py-1 text-right">{formatPercent(metrics.recall)}</td>
+                      <td className="py-1 text-right">{formatPercent(metrics.f1)}</td>
+                      <td className="py-1 text-right">{metrics.support}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex flex-wrap items-center gap-2 mb-2 text-sm">
+              <div className="flex rounded-lg border border-gray-300 overflow-hidden">
+                <button
+                  onClick={() => setCurveType('roc')}
+                  className={`px-3 py-1 ${curveType === 'roc' ? 'bg-indigo-600 text-white' : 'text-gray-700'}`}
+                >
+                  ROC
+                </button>
+                <button
+                  onClick={() => setCurveType('pr')}
+                  className={`px-3 py-1 ${curveType === 'pr' ? 'bg-indigo-600 text-white' : 'text-gray-700'}`}
+                >
+                  Precision / Recall
+                </button>
+              </div>
+              <label className="flex items-center gap-1 text-gray-700">
+                Positive class
+                <select
+                  value={positiveClass}
+                  onChange={(e) => setPositiveClass(e.target.value)}
+                  className="rounded-md border-gray-300 shadow-sm sm:text-sm"
+                >
+                  {evaluation.classes.map(label => (
+                    <option key={label} value={label}>{label}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            {curves && (
+              <p className="text-sm text-gray-600 mb-2">
+                {curveType === 'roc'
+                  ? `AUC: ${curves.auc.toFixed(3)}`
+                  : `Average precision: ${curves.averagePrecision.toFixed(3)}`}
+              </p>
+            )}
+            <svg ref={curveRef}></svg>
+            <p className="text-xs text-gray-500">
+              Scores are the leaf probabilities of the positive class, so the curve has one point per distinct leaf.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EvaluationPanel;
@@ -0,0 +1,208 @@
+import React, { useMemo, useState } from 'react';
+import { Scale, AlertTriangle } from 'lucide-react';
+import { DataPoint, TreeNode } from '../utils/dataLoader';
+import {
+  MIN_GROUP_SIZE,
+  PROXY_THRESHOLD,
+  SensitiveSplit,
+  defaultPositiveClass,
+  fairnessGaps,
+  groupMetrics,
+  groupableColumns,
+  sensitiveSplits
+} from '../utils/fairness';
+
+interface FairnessPanelProps {
+  tree: TreeNode;
+  // Rows the audit scores; the holdout when there is one
+  data: DataPoint[];
+  dataLabel: string;
+  targetColumn: string;
+  onSelectSplit: (split: SensitiveSplit) => void;
+}
+
+const percent = (value: number) => (Number.isNaN(value) ? '—' : `${(value * 100).toFixed(1)}%`);
+
+// Gaps of 10 points or more are worth a closer look; 5 or more are borderline
+const gapColor = (gap: number) =>
+  gap >= 0.1 ? 'text-red-600' : gap >= 0.05 ? 'text-amber-600' : 'text-green-600';
+
+const FairnessPanel: React.FC<FairnessPanelProps> = ({ tree, data, dataLabel, targetColumn, onSelectSplit }) => {
+  const [chosenColumns, setChosenColumns] = useState<string[] | null>(null);
+  const [chosenPositive, setChosenPositive] = useState<string | null>(null);
+
+  const candidates = useMemo(() => groupableColumns(data, [targetColumn]), [data, targetColumn]);
+  const classes = useMemo(() => Object.keys(tree.distribution || {}).sort(), [tree]);
+
+  // Until the user picks, audit the most commonly protected column found
+  const sensitive = useMemo(
+    () => (chosenColumns ?? candidates.filter(c => c.suggested).slice(0, 1).map(c => c.column))
+      .filter(column => candidates.some(c => c.column === column)),
+    [chosenColumns, candidates]
+  );
+  const positive = chosenPositive !== null && classes.includes(chosenPositive)
+    ? chosenPositive
+    : defaultPositiveClass(data, targetColumn);
+
+  const groups = useMemo(
+    () => (sensitive.length > 0 ? groupMetrics(tree, data, targetColumn, positive, sensitive) : []),
+    [tree, data, targetColumn, positive, sensitive]
+  );
+  const gaps = useMemo(() => fairnessGaps(groups), [groups]);
+  const comparable = groups.filter(group => group.count >= MIN_GROUP_SIZE).length;
+  const splits = useMemo(
+    () => (sensitive.length > 0 ? sensitiveSplits(tree, data, sensitive) : []),
+    [tree, data, sensitive]
+  );
+
+  const toggleColumn = (column: string) => {
+    setChosenColumns(sensitive.includes(column) ? sensitive.filter(c => c !== column) : [...sensitive, column]);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <Scale className="w-5 h-5 text-indigo-600" />
+        <h3 className="text-lg font-semibold">Fairness Audit</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-3">
+        Compares how the tree treats groups defined by sensitive columns, scored on {dataLabel} ({data.length} rows).
+        Choosing several columns audits their intersections.
+      </p>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {candidates.map(({ column, suggested }) => {
+          const selected = sensitive.includes(column);
+          return (
+            <button
+              key={column}
+              onClick={() => toggleColumn(column)}
+              className={`px-2 py-1 text-xs rounded-full border ${
+                selected
+                  ? 'bg-indigo-600 text-white border-indigo-600'
+                  : suggested
+                    ? 'border-indigo-300 text-indigo-700'
+                    : 'border-gray-300 text-gray-700'
+              }`}
+            >
+              {column}
+            </button>
+          );
+        })}
+      </div>
+
+      <label className="flex items-center gap-2 mb-4 text-sm text-gray-700">
+        Positive outcome
+        <select
+          value={positive}
+          onChange={(e) => setChosenPositive(e.target.value)}
+          className="p-1 border rounded-lg"
+        >
+          {classes.map(c => (
+            <option key={c} value={c}>{targetColumn} = {c}</option>
+          ))}
+        </select>
+      </label>
+
+      {sensitive.length === 0 ? (
+        <p className="text-sm text-gray-500">Pick at least one sensitive column to audit.</p>
+      ) : (
+        <>
+          {comparable < 2 ? (
+            <p className="text-sm text-amber-700 mb-4">
+              Fewer than two groups have {MIN_GROUP_SIZE} or more rows, so the gaps can't be compared reliably.
+            </p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <h4 className="text-sm font-semibold text-gray-900">Demographic parity gap</h4>
+                <p className={`text-2xl font-bold ${gapColor(gaps.demographicParity)}`}>
+                  {(gaps.demographicParity * 100).toFixed(1)} pts
+                </p>
+                <p className="text-xs text-gray-500">Spread in the share predicted {positive}</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <h4 className="text-sm font-semibold text-gray-900">Disparate impact ratio</h4>
+                <p className={`text-2xl font-bold ${gaps.disparateImpact < 0.8 ? 'text-red-600' : 'text-green-600'}`}>
+                  {gaps.disparateImpact.toFixed(2)}
+                </p>
+                <p className="text-xs text-gray-500">Lowest selection rate over the highest; below 0.80 fails the four-fifths rule</p>
+              </div>
+              <div className="p-3 bg-gray-50 rounded-lg">
+                <h4 className="text-sm font-semibold text-gray-900">Equalized odds gap</h4>
+                <p className={`text-2xl font-bold ${gapColor(gaps.equalizedOdds)}`}>
+                  {(gaps.equalizedOdds * 100).toFixed(1)} pts
+                </p>
+                <p className="text-xs text-gray-500">
+                  TPR gap {(gaps.tprGap * 100).toFixed(1)} pts, FPR gap {(gaps.fprGap * 100).toFixed(1)} pts
+                </p>
+              </div>
+            </div>
+          )}
+
+          <div className="max-h-80 overflow-auto mb-4">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-white">
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4">{sensitive.join(' · ')}</th>
+                  <th className="py-2 pr-4">Rows</th>
+                  <th className="py-2 pr-4">Actual {positive}</th>
+                  <th className="py-2 pr-4">Selection rate</th>
+                  <th className="py-2 pr-4">TPR</th>
+                  <th className="py-2 pr-4">FPR</th>
+                  <th className="py-2">Precision</th>
+                </tr>
+              </thead>
+              <tbody>
+                {groups.map(group => (
+                  <tr
+                    key={group.group}
+                    className={`border-b ${group.count < MIN_GROUP_SIZE ? 'text-gray-400' : 'text-gray-800'}`}
+                    title={group.count < MIN_GROUP_SIZE ? `Fewer than ${MIN_GROUP_SIZE} rows; left out of the gaps` : undefined}
+                  >
+                    <td className="py-2 pr-4 font-medium">{group.group}</td>
+                    <td className="py-2 pr-4">{group.count}</td>
+                    <td className="py-2 pr-4">{percent(group.baseRate)}</td>
+                    <td className="py-2 pr-4">{percent(group.selectionRate)}</td>
+                    <td className="py-2 pr-4">{percent(group.tpr)}</td>
+                    <td className="py-2 pr-4">{percent(group.fpr)}</td>
+                    <td className="py-2">{percent(group.precision)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h4 className="font-semibold text-gray-900 mb-1">Splits on sensitive features</h4>
+          {splits.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No split uses {sensitive.join(' or ')} directly or a proxy for it (Cramér's V ≥ {PROXY_THRESHOLD}).
+            </p>
+          ) : (
+            <ul className="space-y-2">
+              {splits.map((split, i) => (
+                <li key={i}>
+                  <button
+                    onClick={() => onSelectSplit(split)}
+                    className="w-full flex items-center gap-2 p-2 text-left text-sm bg-amber-50 rounded-lg hover:bg-amber-100"
+                  >
+                    <AlertTriangle className="w-4 h-4 shrink-0 text-amber-600" />
+                    <span className="text-amber-900">
+                      Depth {split.path.length - 1}: <span className="font-medium">{split.condition}</span>{' '}
+                      ({split.node.samples ?? '?'} training rows){' '}
+                      {split.direct
+                        ? `splits directly on ${split.sensitive}`
+                        : `acts as a proxy for ${split.sensitive} (Cramér's V ${split.association.toFixed(2)})`}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FairnessPanel;
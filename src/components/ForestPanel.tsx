@@ -0,0 +1,223 @@
+import React from 'react';
+import { Trees, ChevronLeft, ChevronRight, X } from 'lucide-react';
+import {
+  ForestOptions,
+  ForestBuildProgress,
+  ForestPrediction,
+  MaxFeaturesRule,
+  RandomForest
+} from '../utils/randomForest';
+
+interface ForestPanelProps {
+  // Shown instead of the controls when the current model can't be bagged
+  unavailableReason?: string;
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  options: ForestOptions;
+  onOptionsChange: (options: ForestOptions) => void;
+  forest: RandomForest | null;
+  training: boolean;
+  progress: ForestBuildProgress | null;
+  onCancel: () => void;
+  vote: ForestPrediction | null;
+  forestAccuracy: number | null;
+  treeAccuracy: number | null;
+  viewedTree: number | null;
+  onViewedTreeChange: (index: number | null) => void;
+}
+
+const MAX_FEATURES_RULES: { value: MaxFeaturesRule; label: string }[] = [
+  { value: 'sqrt', label: '√features' },
+  { value: 'log2', label: 'log₂ features' },
+  { value: 'half', label: 'Half' },
+  { value: 'all', label: 'All (bagging only)' }
+];
+
+const ForestPanel: React.FC<ForestPanelProps> = ({
+  unavailableReason,
+  enabled,
+  onEnabledChange,
+  options,
+  onOptionsChange,
+  forest,
+  training,
+  progress,
+  onCancel,
+  vote,
+  forestAccuracy,
+  treeAccuracy,
+  viewedTree,
+  onViewedTreeChange
+}) => {
+  const treeCount = forest?.trees.length || 0;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Trees className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold">Random Forest</h3>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={enabled && !unavailableReason}
+            disabled={!!unavailableReason}
+            onChange={(e) => onEnabledChange(e.target.checked)}
+          />
+          Train an ensemble alongside the tree
+        </label>
+      </div>
+
+      {unavailableReason ? (
+        <p className="text-sm text-gray-600">{unavailableReason}</p>
+      ) : !enabled ? (
+        <p className="text-sm text-gray-600">
+          A random forest trains many trees on bootstrap samples of the training rows, each looking at a random subset
+          of features per split, and lets them vote. Enable it to compare a single tree with the ensemble.
+        </p>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Trees</label>
+              <input
+                type="range"
+                min={5}
+                max={100}
+                step={5}
+                value={options.numTrees}
+                onChange={(e) => onOptionsChange({ ...options, numTrees: Number(e.target.value) })}
+                className="w-full"
+              />
+              <div className="text-sm text-right font-medium text-gray-700">{options.numTrees}</div>
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Features per split</label>
+              <select
+                value={options.maxFeatures}
+                onChange={(e) => onOptionsChange({ ...options, maxFeatures: e.target.value as MaxFeaturesRule })}
+                className="block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+              >
+                {MAX_FEATURES_RULES.map(rule => (
+                  <option key={rule.value} value={rule.value}>{rule.label}</option>
+                ))}
+              </select>
+              {forest && (
+                <div className="text-xs text-gray-500">{forest.featuresPerSplit} features drawn at each split</div>
+              )}
+            </div>
+            <div className="space-y-1">
+              <label className="block text-sm font-medium text-gray-700">Bootstrap sample size</label>
+              <input
+                type="range"
+                min={0.2}
+                max={1}
+                step={0.1}
+                value={options.sampleFraction}
+                onChange={(e) => onOptionsChange({ ...options, sampleFraction: Number(e.target.value) })}
+                className="w-full"
+              />
+              <div className="text-sm text-right font-medium text-gray-700">
+                {(options.sampleFraction * 100).toFixed(0)}% of training rows
+              </div>
+            </div>
+          </div>
+
+          {training && (
+            <div className="flex items-center justify-between gap-4 bg-indigo-50 p-3 rounded-lg">
+              <div className="flex items-center gap-3">
+                <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-indigo-500"></div>
+                <p className="text-sm text-indigo-800">
+                  Growing forest{progress ? `: tree ${Math.min(progress.treesBuilt + 1, progress.totalTrees)} of ${progress.totalTrees}` : '...'}
+                </p>
+              </div>
+              <button onClick={onCancel} className="flex items-center gap-1 text-sm text-indigo-700 hover:text-indigo-900">
+                <X className="w-4 h-4" />
+                Cancel
+              </button>
+            </div>
+          )}
+
+          {forest && vote && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="p-4 bg-indigo-50 rounded-lg">
+                <h4 className="font-semibold text-indigo-900">Ensemble Vote:</h4>
+                <p className="text-indigo-700 mb-2">
+                  {vote.prediction} ({(vote.voteShare * 100).toFixed(0)}% of {treeCount} trees)
+                </p>
+                <div className="space-y-1">
+                  {Object.entries(vote.votes)
+                    .sort((a, b) => b[1] - a[1])
+                    .map(([label, count]) => (
+                      <div key={label} className="flex items-center gap-2 text-sm">
+                        <span className="w-24 truncate text-gray-700">{label}</span>
+                        <div className="flex-1 h-3 bg-white rounded">
+                          <div
+                            className="h-3 bg-indigo-500 rounded"
+                            style={{ width: `${(count / treeCount) * 100}%` }}
+                          ></div>
+                        </div>
+                        <span className="w-10 text-right text-gray-600">{count}</span>
+                      </div>
+                    ))}
+                </div>
+              </div>
+
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <h4 className="font-semibold text-gray-900 mb-2">Holdout Accuracy</h4>
+                {forestAccuracy === null || treeAccuracy === null ? (
+                  <p className="text-sm text-gray-500">Hold out a test split to compare accuracy.</p>
+                ) : (
+                  <div className="space-y-1 text-sm">
+                    <p>Single tree: <span className="font-medium">{(treeAccuracy * 100).toFixed(1)}%</span></p>
+                    <p>Forest: <span className="font-medium">{(forestAccuracy * 100).toFixed(1)}%</span></p>
+                    <p className={forestAccuracy >= treeAccuracy ? 'text-green-700' : 'text-red-600'}>
+                      {forestAccuracy >= treeAccuracy ? '+' : ''}
+                      {((forestAccuracy - treeAccuracy) * 100).toFixed(1)} points for the ensemble
+                    </p>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {forest && treeCount > 0 && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium text-gray-700">Tree view:</span>
+              <button
+                onClick={() => onViewedTreeChange(null)}
+                className={`px-3 py-1 text-sm rounded-lg border ${
+                  viewedTree === null ? 'bg-indigo-600 text-white border-indigo-600' : 'border-gray-300 text-gray-700'
+                }`}
+              >
+                Single tree
+              </button>
+              <button
+                onClick={() => onViewedTreeChange(viewedTree === null ? 0 : Math.max(0, viewedTree - 1))}
+                className="p-1 rounded-lg border border-gray-300 text-gray-700 disabled:opacity-40"
+                disabled={viewedTree === 0}
+                aria-label="Previous forest tree"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="text-sm text-gray-700">
+                {viewedTree === null ? `Forest trees (${treeCount})` : `Forest tree ${viewedTree + 1} of ${treeCount}`}
+              </span>
+              <button
+                onClick={() => onViewedTreeChange(viewedTree === null ? 0 : Math.min(treeCount - 1, viewedTree + 1))}
+                className="p-1 rounded-lg border border-gray-300 text-gray-700 disabled:opacity-40"
+                disabled={viewedTree === treeCount - 1}
+                aria-label="Next forest tree"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ForestPanel;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { Image } from 'lucide-react';
+import { buildTreeSvg, downloadPng, downloadSvg } from '../utils/imageExport';
+
+interface ImageExportControlsProps {
+  treeRef: React.RefObject<SVGSVGElement>;
+  importanceRef: React.RefObject<SVGSVGElement>;
+  importanceAvailable: boolean;
+  filename: string;
+}
+
+const PNG_SCALES = [2, 3, 4];
+
+const ImageExportControls: React.FC<ImageExportControlsProps> = ({
+  treeRef,
+  importanceRef,
+  importanceAvailable,
+  filename
+}) => {
+  const [includePath, setIncludePath] = useState(true);
+  const [includeImportance, setIncludeImportance] = useState(false);
+  const [pngScale, setPngScale] = useState(2);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const build = () => {
+    if (!treeRef.current) throw new Error('The tree has not been drawn yet');
+    return buildTreeSvg(treeRef.current, importanceRef.current, {
+      includePath,
+      includeImportance: includeImportance && importanceAvailable
+    });
+  };
+
+  const exportSvg = () => {
+    try {
+      downloadSvg(build(), `${filename}.svg`);
+      setError(null);
+    } catch (err) {
+      console.error("Error exporting SVG:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const exportPng = async () => {
+    setExporting(true);
+    try {
+      await downloadPng(build(), pngScale, `${filename}@${pngScale}x.png`);
+      setError(null);
+    } catch (err) {
+      console.error("Error exporting PNG:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="mb-2 space-y-1">
+      <div className="flex flex-wrap items-center gap-4 text-sm text-gray-700">
+        <span className="flex items-center gap-1 font-medium">
+          <Image className="w-4 h-4 text-indigo-600" />
+          Save image
+        </span>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={includePath} onChange={(e) => setIncludePath(e.target.checked)} />
+          Highlighted decision path
+        </label>
+        <label className={`flex items-center gap-1 ${importanceAvailable ? '' : 'opacity-40'}`}>
+          <input
+            type="checkbox"
+            checked={includeImportance && importanceAvailable}
+            disabled={!importanceAvailable}
+            onChange={(e) => setIncludeImportance(e.target.checked)}
+          />
+          Feature importance chart
+        </label>
+        <button
+          onClick={exportSvg}
+          className="px-3 py-1 rounded-lg border border-gray-300 hover:bg-gray-50"
+        >
+          SVG
+        </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={exportPng}
+            disabled={exporting}
+            className="px-3 py-1 rounded-lg border border-gray-300 hover:bg-gray-50 disabled:opacity-40"
+          >
+            {exporting ? 'Rendering...' : 'PNG'}
+          </button>
+          <select
+            value={pngScale}
+            onChange={(e) => setPngScale(Number(e.target.value))}
+            className="p-1 border rounded-lg"
+          >
+            {PNG_SCALES.map(scale => (
+              <option key={scale} value={scale}>{scale}x</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">Exports the whole tree at its natural size, whatever the current zoom.</p>
+      {error && <p className="text-sm text-red-600">Image export failed: {error}</p>}
+    </div>
+  );
+};
+
+export default ImageExportControls;
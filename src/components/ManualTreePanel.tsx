@@ -0,0 +1,296 @@
+import React, { useMemo, useState } from 'react';
+import { Sprout, Minimize2, X } from 'lucide-react';
+import { DataPoint, TreeNode, TreeOptions, createNodeBuilder, formatEstimate, formatThreshold } from '../utils/dataLoader';
+import { evaluateRegression, evaluateTree } from '../utils/evaluation';
+import { containsNode, manualRoot, replaceNode, rowsReaching } from '../utils/manualTree';
+import { countLeaves } from '../utils/pruning';
+
+interface ManualTreePanelProps {
+  // The hand-built tree, or null before the user starts one
+  tree: TreeNode | null;
+  automaticTree: TreeNode;
+  trainData: DataPoint[];
+  testData: DataPoint[];
+  targetColumn: string;
+  options: TreeOptions;
+  // Node clicked in the drawn tree
+  selectedNode: TreeNode | null;
+  onChange: (tree: TreeNode | null) => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+const scoreTree = (tree: TreeNode, data: DataPoint[], target: string) =>
+  tree.task === 'regression'
+    ? `R² ${evaluateRegression(tree, data, target).r2.toFixed(3)}`
+    : `${(evaluateTree(tree, data, target).accuracy * 100).toFixed(1)}% accuracy`;
+
+const ManualTreePanel: React.FC<ManualTreePanelProps> = ({
+  tree,
+  automaticTree,
+  trainData,
+  testData,
+  targetColumn,
+  options,
+  selectedNode,
+  onChange
+}) => {
+  const [customFeature, setCustomFeature] = useState('');
+  const [customThreshold, setCustomThreshold] = useState('');
+  const [splitError, setSplitError] = useState<string | null>(null);
+  const regression = automaticTree.task === 'regression';
+
+  const builder = useMemo(() => createNodeBuilder(trainData, targetColumn, options), [trainData, targetColumn, options]);
+
+  // A node from an older version of the tree is no longer part of it
+  const node = tree && selectedNode && containsNode(tree, selectedNode) ? selectedNode : null;
+  const rows = useMemo(() => (tree && node ? rowsReaching(tree, node, trainData) : []), [tree, node, trainData]);
+  const suggestions = useMemo(
+    () => (node && !node.children ? builder.suggestSplits(rows).slice(0, 10) : []),
+    [builder, node, rows]
+  );
+
+  const feature = customFeature || suggestions[0]?.feature || builder.features[0] || '';
+  const featureNumeric = builder.isNumeric(feature);
+  const categories = useMemo(
+    () => (featureNumeric ? [] : Array.from(new Set(rows.map(i => String(trainData[i][feature])))).sort()),
+    [featureNumeric, rows, trainData, feature]
+  );
+
+  // Scored on the holdout when there is one, so the comparison is fair to both trees
+  const scoringData = testData.length > 0 ? testData : trainData;
+  const manualScore = useMemo(
+    () => (tree ? scoreTree(tree, scoringData, targetColumn) : ''),
+    [tree, scoringData, targetColumn]
+  );
+  const automaticScore = useMemo(
+    () => scoreTree(automaticTree, scoringData, targetColumn),
+    [automaticTree, scoringData, targetColumn]
+  );
+
+  const applySplit = (splitFeature: string, threshold: number | string) => {
+    if (!tree || !node) return;
+    const split = builder.split(rows, splitFeature, threshold);
+    if (!split) {
+      setSplitError(`Every row here falls on the same side of ${builder.featureName(splitFeature)} ${
+        typeof threshold === 'number' ? `≤ ${formatThreshold(threshold)}` : `= "${threshold}"`
+      }`);
+      return;
+    }
+    setSplitError(null);
+    onChange(replaceNode(tree, node, split));
+  };
+
+  const applyCustomSplit = () => {
+    if (featureNumeric) {
+      const threshold = Number(customThreshold);
+      if (customThreshold.trim() === '' || Number.isNaN(threshold)) {
+        setSplitError('Enter a numeric threshold');
+        return;
+      }
+      applySplit(feature, threshold);
+    } else {
+      applySplit(feature, customThreshold || categories[0]);
+    }
+  };
+
+  if (!tree) {
+    return (
+      <div className="bg-white p-4 rounded-lg shadow-lg flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Sprout className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold">Grow It Yourself</h3>
+          <span className="text-sm text-gray-600">Build a tree split by split and compare it with the automatic one.</span>
+        </div>
+        <button
+          onClick={() => onChange(manualRoot(builder, trainData, automaticTree))}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg shadow hover:bg-indigo-700"
+        >
+          Start
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Sprout className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold">Grow It Yourself</h3>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            onClick={() => onChange(manualRoot(builder, trainData, automaticTree))}
+            className="px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            Start over
+          </button>
+          <button onClick={() => onChange(null)} className="text-gray-500 hover:text-gray-700" aria-label="Leave manual mode">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="p-3 bg-indigo-50 rounded-lg">
+          <h4 className="text-sm font-semibold text-indigo-900">Your tree</h4>
+          <p className="text-sm text-indigo-800">{manualScore} · {countLeaves(tree)} leaves</p>
+        </div>
+        <div className="p-3 bg-gray-50 rounded-lg">
+          <h4 className="text-sm font-semibold text-gray-900">Automatic tree</h4>
+          <p className="text-sm text-gray-700">{automaticScore} · {countLeaves(automaticTree)} leaves</p>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">
+        Scored on {testData.length > 0 ? `the ${testData.length} holdout rows` : `the ${trainData.length} training rows`}.
+        The drawing above shows your tree until you leave this mode.
+      </p>
+
+      {!node ? (
+        <p className="text-sm text-gray-600">Click a node in the tree: a leaf to split it, or a split to collapse it.</p>
+      ) : (
+        <>
+          <div>
+            <h4 className="font-semibold text-gray-900">
+              {node.children ? `Split on ${node.name} ${node.condition || ''}` : `Leaf predicting ${node.name}`}
+            </h4>
+            <p className="text-sm text-gray-600">
+              {rows.length} training rows reach this node
+              {node.mean !== undefined
+                ? ` (mean ${formatEstimate(node.mean)} ± ${formatEstimate(node.std || 0)})`
+                : node.distribution && `: ${Object.entries(node.distribution).map(([label, count]) => `${label} ${count}`).join(', ')}`}.
+            </p>
+          </div>
+
+          {rows.length > 0 && (
+            <div className="overflow-auto">
+              <table className="text-xs">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    {[...builder.features, targetColumn].map(column => (
+                      <th key={column} className="py-1 pr-3 whitespace-nowrap">{column}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(0, PREVIEW_ROWS).map(i => (
+                    <tr key={i} className="border-b text-gray-700">
+                      {[...builder.features, targetColumn].map(column => (
+                        <td key={column} className="py-1 pr-3 whitespace-nowrap">{String(trainData[i][column])}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {rows.length > PREVIEW_ROWS && (
+                <p className="text-xs text-gray-500 mt-1">First {PREVIEW_ROWS} of {rows.length} rows.</p>
+              )}
+            </div>
+          )}
+
+          {node.children ? (
+            <button
+              onClick={() => onChange(replaceNode(tree, node, builder.leaf(rows)))}
+              className="flex items-center gap-2 px-4 py-2 border border-indigo-600 text-indigo-600 rounded-lg hover:bg-indigo-50"
+            >
+              <Minimize2 className="w-4 h-4" />
+              Collapse into a leaf
+            </button>
+          ) : (
+            <>
+              <div>
+                <h4 className="font-semibold text-gray-900 mb-1">Best split per feature</h4>
+                {suggestions.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No split leaves at least {options.minSamplesLeaf} rows on each side. Try a custom split below.
+                  </p>
+                ) : (
+                  <ul className="space-y-1">
+                    {suggestions.map(suggestion => (
+                      <li key={suggestion.feature}>
+                        <button
+                          onClick={() => applySplit(suggestion.feature, suggestion.threshold)}
+                          className="w-full flex items-center gap-3 p-2 text-left text-sm rounded-lg hover:bg-indigo-50"
+                        >
+                          <span className="w-56 truncate text-gray-800">
+                            {suggestion.name}{' '}
+                            {typeof suggestion.threshold === 'number'
+                              ? `≤ ${formatThreshold(suggestion.threshold)}`
+                              : `= "${suggestion.threshold}"`}
+                          </span>
+                          <span className="flex-1 bg-gray-100 rounded h-2">
+                            <span
+                              className="block h-2 rounded bg-indigo-600"
+                              style={{ width: `${(Math.max(0, suggestion.score) / Math.max(suggestions[0].score, 1e-12)) * 100}%` }}
+                            ></span>
+                          </span>
+                          <span className="w-20 text-right text-gray-600">{suggestion.score.toFixed(3)}</span>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <p className="text-xs text-gray-500 mt-1">
+                  Scores use the {regression ? 'variance reduction' : 'split criterion'} from the model settings; the
+                  automatic builder takes the top one.
+                </p>
+              </div>
+
+              <div className="flex flex-wrap items-end gap-2 text-sm">
+                <label className="flex flex-col gap-1">
+                  <span className="text-gray-700">Feature</span>
+                  <select
+                    value={feature}
+                    onChange={(e) => {
+                      setCustomFeature(e.target.value);
+                      setCustomThreshold('');
+                    }}
+                    className="p-1 border rounded-lg"
+                  >
+                    {builder.features.map(f => (
+                      <option key={f} value={f}>{builder.featureName(f)}</option>
+                    ))}
+                  </select>
+                </label>
+                {featureNumeric ? (
+                  <label className="flex flex-col gap-1">
+                    <span className="text-gray-700">≤ threshold</span>
+                    <input
+                      type="number"
+                      value={customThreshold}
+                      onChange={(e) => setCustomThreshold(e.target.value)}
+                      className="p-1 border rounded-lg w-32"
+                    />
+                  </label>
+                ) : (
+                  <label className="flex flex-col gap-1">
+                    <span className="text-gray-700">= category</span>
+                    <select
+                      value={customThreshold || categories[0] || ''}
+                      onChange={(e) => setCustomThreshold(e.target.value)}
+                      className="p-1 border rounded-lg"
+                    >
+                      {categories.map(c => (
+                        <option key={c} value={c}>{c}</option>
+                      ))}
+                    </select>
+                  </label>
+                )}
+                <button
+                  onClick={applyCustomSplit}
+                  className="px-4 py-2 bg-indigo-600 text-white rounded-lg shadow hover:bg-indigo-700"
+                >
+                  Split
+                </button>
+              </div>
+            </>
+          )}
+          {splitError && <p className="text-sm text-red-600">{splitError}</p>}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ManualTreePanel;
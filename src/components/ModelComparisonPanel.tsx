@@ -0,0 +1,374 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { GitCompare, X } from 'lucide-react';
+import { DataPoint, TreeNode, TreeOptions, formatEstimate } from '../utils/dataLoader';
+import { SPLIT_CRITERIA, SplitCriterion } from '../utils/splitCriteria';
+import { evaluateRegression, evaluateTree } from '../utils/evaluation';
+import { createRandom, shuffle } from '../utils/random';
+import { CancelledError, createTreeWorkerClient, TreeWorkerClient } from '../utils/treeWorkerClient';
+import { AlignedNode, DIFF_STATUSES, alignTrees, countStatuses, routeInput } from '../utils/treeDiff';
+
+interface ModelComparisonPanelProps {
+  tree: TreeNode;
+  trainData: DataPoint[];
+  testData: DataPoint[];
+  targetColumn: string;
+  baseOptions: TreeOptions;
+  input: { [key: string]: string | number };
+}
+
+interface TreeMetric {
+  label: string;
+  a: number;
+  b: number;
+  format: (value: number) => string;
+  // Whether a larger value is an improvement
+  higherIsBetter?: boolean;
+}
+
+const statusColor = new Map(DIFF_STATUSES.map(s => [s.value, s.color]));
+
+const treeShape = (node: TreeNode): { leaves: number; depth: number } => {
+  if (!node.children) return { leaves: 1, depth: 0 };
+  const children = node.children.map(treeShape);
+  return {
+    leaves: children.reduce((sum, c) => sum + c.leaves, 0),
+    depth: 1 + Math.max(...children.map(c => c.depth))
+  };
+};
+
+const nodeLabel = (node: TreeNode) => {
+  const text = node.children
+    ? `${node.name} ${node.condition || ''}`
+    : node.mean !== undefined ? formatEstimate(node.mean) : node.name;
+  return text.length > 20 ? `${text.slice(0, 19)}…` : text;
+};
+
+const findAligned = (root: AlignedNode | null, id: string): AlignedNode | undefined => {
+  if (!root) return undefined;
+  if (root.id === id) return root;
+  for (const child of root.children) {
+    if (id === child.id || id.startsWith(`${child.id}.`)) return findAligned(child, id);
+  }
+  return undefined;
+};
+
+interface AlignedTreeViewProps {
+  aligned: AlignedNode;
+  side: 'a' | 'b';
+  path: string[];
+}
+
+// Draws one side of the aligned trees; both sides share a layout so shared splits line up
+const AlignedTreeView: React.FC<AlignedTreeViewProps> = ({ aligned, side, path }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (!svgRef.current) return;
+    d3.select(svgRef.current).selectAll("*").remove();
+
+    const root = d3.tree<AlignedNode>().nodeSize([110, 80])(d3.hierarchy(aligned, d => d.children));
+    const nodes = root.descendants();
+    const [minX, maxX] = d3.extent(nodes, d => d.x) as [number, number];
+    const maxY = d3.max(nodes, d => d.y) || 0;
+    const padding = 70;
+    const onPath = new Set(path);
+
+    const svg = d3.select(svgRef.current)
+      .attr("viewBox", `${minX - padding} ${-30} ${maxX - minX + 2 * padding} ${maxY + 70}`)
+      .attr("height", Math.min(600, maxY + 70));
+
+    svg.selectAll(".link")
+      .data(root.links().filter(l => l.source.data[side] && l.target.data[side]))
+      .join("line")
+      .attr("class", "link")
+      .attr("x1", d => d.source.x)
+      .attr("y1", d => d.source.y)
+      .attr("x2", d => d.target.x)
+      .attr("y2", d => d.target.y)
+      .style("stroke", d => (onPath.has(d.target.data.id) ? "#4f46e5" : "#d1d5db"))
+      .style("stroke-width", d => (onPath.has(d.target.data.id) ? "3px" : "1.5px"));
+
+    const node = svg.selectAll(".node")
+      .data(nodes.filter(d => d.data[side]))
+      .join("g")
+      .attr("class", "node")
+      .attr("transform", d => `translate(${d.x},${d.y})`);
+
+    node.append("circle")
+      .attr("r", 9)
+      .style("fill", d => statusColor.get(d.data.status) || "#e5e7eb")
+      .style("stroke", d => (onPath.has(d.data.id) ? "#4f46e5" : "#6b7280"))
+      .style("stroke-width", d => (onPath.has(d.data.id) ? "3px" : "1px"));
+
+    node.append("text")
+      .attr("dy", 24)
+      .style("text-anchor", "middle")
+      .style("font-size", "10px")
+      .style("font-weight", d => (onPath.has(d.data.id) ? "bold" : "normal"))
+      .text(d => nodeLabel(d.data[side]!));
+
+    node.append("title")
+      .text(d => {
+        const n = d.data[side]!;
+        const detail = n.children ? `${n.name} ${n.condition || ''}` : `Prediction: ${n.mean !== undefined ? formatEstimate(n.mean) : n.name}`;
+        return `${detail}\n${n.samples ?? '?'} training rows\n${DIFF_STATUSES.find(s => s.value === d.data.status)?.label}`;
+      });
+  }, [aligned, side, path]);
+
+  return <svg ref={svgRef} className="w-full"></svg>;
+};
+
+const ModelComparisonPanel: React.FC<ModelComparisonPanelProps> = ({
+  tree,
+  trainData,
+  testData,
+  targetColumn,
+  baseOptions,
+  input
+}) => {
+  const [open, setOpen] = useState(false);
+  const [options, setOptions] = useState<TreeOptions>(baseOptions);
+  const [sampleFraction, setSampleFraction] = useState(1);
+  const [treeB, setTreeB] = useState<TreeNode | null>(null);
+  const [training, setTraining] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const clientRef = useRef<TreeWorkerClient | null>(null);
+
+  const regression = tree.task === 'regression';
+  // Model B always solves the same task as the main tree
+  const task = baseOptions.task;
+
+  useEffect(() => () => {
+    clientRef.current?.dispose();
+    clientRef.current = null;
+  }, []);
+
+  useEffect(() => {
+    if (!open || trainData.length === 0) return;
+
+    if (!clientRef.current) clientRef.current = createTreeWorkerClient();
+    const rows = sampleFraction < 1
+      ? shuffle(trainData, createRandom(options.seed)).slice(0, Math.max(2, Math.round(trainData.length * sampleFraction)))
+      : trainData;
+
+    const job = clientRef.current.buildTree({ data: rows, target: targetColumn, options: { ...options, task } });
+    setTraining(true);
+    job.promise
+      .then(built => {
+        setTreeB(built);
+        setError(null);
+        setTraining(false);
+      })
+      .catch(err => {
+        if (err instanceof CancelledError) return;
+        console.error("Error building comparison tree:", err);
+        setError(err instanceof Error ? err.message : String(err));
+        setTraining(false);
+      });
+
+    return () => job.cancel();
+  }, [open, options, sampleFraction, trainData, targetColumn, task]);
+
+  const aligned = useMemo(() => (treeB ? alignTrees(tree, treeB) : null), [tree, treeB]);
+  const counts = useMemo(() => (aligned ? countStatuses(aligned) : null), [aligned]);
+  const pathA = useMemo(() => (aligned ? routeInput(aligned, 'a', input) : []), [aligned, input]);
+  const pathB = useMemo(() => (aligned ? routeInput(aligned, 'b', input) : []), [aligned, input]);
+
+  const metrics = useMemo((): TreeMetric[] => {
+    if (!treeB) return [];
+    const shapeA = treeShape(tree);
+    const shapeB = treeShape(treeB);
+    const structure: TreeMetric[] = [
+      { label: 'Leaves', a: shapeA.leaves, b: shapeB.leaves, format: String },
+      { label: 'Depth', a: shapeA.depth, b: shapeB.depth, format: String }
+    ];
+    if (testData.length === 0) return structure;
+
+    if (regression) {
+      const a = evaluateRegression(tree, testData, targetColumn);
+      const b = evaluateRegression(treeB, testData, targetColumn);
+      return [
+        { label: 'Holdout RMSE', a: a.rmse, b: b.rmse, format: formatEstimate, higherIsBetter: false },
+        { label: 'Holdout R²', a: a.r2, b: b.r2, format: v => v.toFixed(3), higherIsBetter: true },
+        ...structure
+      ];
+    }
+    const a = evaluateTree(tree, testData, targetColumn);
+    const b = evaluateTree(treeB, testData, targetColumn);
+    return [
+      { label: 'Holdout accuracy', a: a.accuracy, b: b.accuracy, format: v => `${(v * 100).toFixed(1)}%`, higherIsBetter: true },
+      ...structure
+    ];
+  }, [tree, treeB, testData, targetColumn, regression]);
+
+  const leafA = aligned && pathA.length > 0 ? findAligned(aligned, pathA[pathA.length - 1])?.a : undefined;
+  const leafB = aligned && pathB.length > 0 ? findAligned(aligned, pathB[pathB.length - 1])?.b : undefined;
+  // First node on A's path where the two models stop asking the same question
+  const divergence = pathA.findIndex((id, i) => id !== pathB[i] || findAligned(aligned, id)?.status !== 'same');
+  const divergedAt = divergence >= 0 ? findAligned(aligned, pathA[divergence]) : undefined;
+  const describeCheck = (node?: TreeNode) => (node?.children ? `checks ${nodeLabel(node)}` : 'stops at a leaf');
+  const describeLeaf = (leaf?: TreeNode) => (leaf ? (leaf.mean !== undefined ? formatEstimate(leaf.mean) : leaf.name) : '—');
+
+  const update = <K extends keyof TreeOptions>(key: K, value: TreeOptions[K]) => setOptions({ ...options, [key]: value });
+
+  if (!open) {
+    return (
+      <div className="bg-white p-4 rounded-lg shadow-lg flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold">Compare Models</h3>
+          <span className="text-sm text-gray-600">Train a second tree with other settings and diff it against this one.</span>
+        </div>
+        <button
+          onClick={() => {
+            setOptions(baseOptions);
+            setOpen(true);
+          }}
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg shadow hover:bg-indigo-700"
+        >
+          Compare
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-lg space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <GitCompare className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold">Compare Models</h3>
+          {training && <span className="text-sm text-gray-500">Training model B...</span>}
+        </div>
+        <button
+          onClick={() => {
+            setOpen(false);
+            setTreeB(null);
+          }}
+          className="text-gray-500 hover:text-gray-700"
+          aria-label="Close comparison"
+        >
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 text-sm text-gray-700">
+        <label className="space-y-1">
+          <span className="block font-medium">Max depth: {options.maxDepth}</span>
+          <input
+            type="range"
+            min={1}
+            max={8}
+            value={options.maxDepth}
+            onChange={(e) => update('maxDepth', Number(e.target.value))}
+            className="w-full"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="block font-medium">Min samples per leaf: {options.minSamplesLeaf}</span>
+          <input
+            type="range"
+            min={1}
+            max={50}
+            value={options.minSamplesLeaf}
+            onChange={(e) => update('minSamplesLeaf', Number(e.target.value))}
+            className="w-full"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="block font-medium">Training rows: {(sampleFraction * 100).toFixed(0)}%</span>
+          <input
+            type="range"
+            min={0.1}
+            max={1}
+            step={0.05}
+            value={sampleFraction}
+            onChange={(e) => setSampleFraction(Number(e.target.value))}
+            className="w-full"
+          />
+        </label>
+        {!regression && (
+          <label className="space-y-1">
+            <span className="block font-medium">Split criterion</span>
+            <select
+              value={options.criterion}
+              onChange={(e) => update('criterion', e.target.value as SplitCriterion)}
+              className="w-full p-1 border rounded-lg"
+            >
+              {SPLIT_CRITERIA.map(c => (
+                <option key={c.value} value={c.value}>{c.label}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        Model A is the tree above. Model B trains on the same training split
+        {sampleFraction < 1 ? ', subsampled with the model seed' : ''} and is scored on the same holdout.
+      </p>
+
+      {error && <p className="text-sm text-red-600">Model B failed to train: {error}</p>}
+
+      {aligned && treeB && counts && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {metrics.map(metric => {
+              const delta = metric.b - metric.a;
+              const better = metric.higherIsBetter === undefined || delta === 0
+                ? 'text-gray-600'
+                : (delta > 0) === metric.higherIsBetter ? 'text-green-600' : 'text-red-600';
+              return (
+                <div key={metric.label} className="p-3 bg-gray-50 rounded-lg">
+                  <h4 className="text-sm font-semibold text-gray-900">{metric.label}</h4>
+                  <p className="text-sm text-gray-700">A {metric.format(metric.a)} · B {metric.format(metric.b)}</p>
+                  <p className={`text-sm font-medium ${better}`}>
+                    Δ {delta >= 0 ? '+' : '−'}{metric.format(Math.abs(delta))}
+                  </p>
+                </div>
+              );
+            })}
+          </div>
+
+          <div className="p-3 bg-indigo-50 rounded-lg text-sm text-indigo-900">
+            {leafA && leafB && describeLeaf(leafA) === describeLeaf(leafB) ? (
+              <p>Both models predict <span className="font-semibold">{describeLeaf(leafA)}</span> for the current inputs.</p>
+            ) : (
+              <p>
+                For the current inputs model A predicts <span className="font-semibold">{describeLeaf(leafA)}</span> and
+                model B predicts <span className="font-semibold">{describeLeaf(leafB)}</span>.
+              </p>
+            )}
+            {divergedAt && (divergedAt.a?.children || divergedAt.b?.children) && (
+              <p>
+                The paths part ways at depth {divergence}: A {describeCheck(divergedAt.a)}, B {describeCheck(divergedAt.b)}.
+              </p>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+            {DIFF_STATUSES.map(status => (
+              <span key={status.value} className="flex items-center gap-1">
+                <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: status.color }}></span>
+                {status.label} ({counts[status.value]})
+              </span>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <div>
+              <h4 className="font-semibold text-gray-900 mb-1">Model A (current)</h4>
+              <AlignedTreeView aligned={aligned} side="a" path={pathA} />
+            </div>
+            <div>
+              <h4 className="font-semibold text-gray-900 mb-1">Model B</h4>
+              <AlignedTreeView aligned={aligned} side="b" path={pathB} />
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ModelComparisonPanel;
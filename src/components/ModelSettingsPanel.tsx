@@ -0,0 +1,137 @@
+import React from 'react';
+import { Settings, RotateCcw } from 'lucide-react';
+import { SPLIT_CRITERIA } from '../utils/splitCriteria';
+import { TreeOptions, TreeTask, DEFAULT_TREE_OPTIONS } from '../utils/dataLoader';
+
+interface ModelSettingsPanelProps {
+  options: TreeOptions;
+  onOptionsChange: (options: TreeOptions) => void;
+  // Regression needs every target value to be a number
+  regressionAvailable: boolean;
+}
+
+const TASKS: { value: TreeTask; label: string; description: string }[] = [
+  { value: 'classification', label: 'Classification', description: 'Leaves predict the majority class' },
+  { value: 'regression', label: 'Regression', description: 'Leaves predict the mean of a numeric target' }
+];
+
+type NumericOption = Exclude<keyof TreeOptions, 'criterion' | 'task'>;
+
+const NUMERIC_SETTINGS: {
+  key: NumericOption;
+  label: string;
+  help: string;
+  min: number;
+  max: number;
+  step: number;
+}[] = [
+  { key: 'maxDepth', label: 'Max depth', help: 'Split levels below the root', min: 1, max: 8, step: 1 },
+  { key: 'minSamplesSplit', label: 'Min samples per split', help: 'Smaller nodes become leaves', min: 2, max: 100, step: 1 },
+  { key: 'minSamplesLeaf', label: 'Min samples per leaf', help: 'Both sides of a split need this many rows', min: 1, max: 50, step: 1 },
+  { key: 'minGain', label: 'Min gain', help: 'Splits scoring at or below this stop growth', min: 0, max: 0.2, step: 0.005 },
+  { key: 'maxThresholds', label: 'Max candidate thresholds', help: 'Cut points scored per numeric feature', min: 0, max: 200, step: 1 }
+];
+
+const ModelSettingsPanel: React.FC<ModelSettingsPanelProps> = ({ options, onOptionsChange, regressionAvailable }) => {
+  const update = <K extends keyof TreeOptions>(key: K, value: TreeOptions[K]) => {
+    onOptionsChange({ ...options, [key]: value });
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-lg">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Settings className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold">Model Settings:</h3>
+        </div>
+        <button
+          onClick={() => onOptionsChange({ ...DEFAULT_TREE_OPTIONS, task: options.task })}
+          className="flex items-center gap-1 text-sm text-gray-500 hover:text-indigo-600"
+        >
+          <RotateCcw className="w-4 h-4" />
+          Reset
+        </button>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        <label className="block text-sm font-medium text-gray-700">Task</label>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {TASKS.map(task => {
+            const disabled = task.value === 'regression' && !regressionAvailable;
+            return (
+              <button
+                key={task.value}
+                onClick={() => update('task', task.value)}
+                disabled={disabled}
+                className={`p-3 text-left rounded-lg border-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${
+                  options.task === task.value
+                    ? 'border-indigo-500 bg-indigo-50'
+                    : 'border-gray-200 hover:border-indigo-300'
+                }`}
+              >
+                <span className="block font-medium text-gray-900">{task.label}</span>
+                <span className="block text-xs text-gray-500">
+                  {disabled ? 'Needs a numeric target column' : task.description}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="space-y-2 mb-4">
+        <label className="block text-sm font-medium text-gray-700">Split criterion</label>
+        {options.task === 'regression' ? (
+          <p className="text-sm text-gray-600">
+            Regression trees pick the split with the largest variance reduction, i.e. the biggest drop in squared
+            error around the branch means.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            {SPLIT_CRITERIA.map(option => (
+              <button
+                key={option.value}
+                onClick={() => update('criterion', option.value)}
+                className={`p-3 text-left rounded-lg border-2 transition-colors ${
+                  options.criterion === option.value
+                    ? 'border-indigo-500 bg-indigo-50'
+                    : 'border-gray-200 hover:border-indigo-300'
+                }`}
+              >
+                <span className="block font-medium text-gray-900">{option.label}</span>
+                <span className="block text-xs text-gray-500">{option.description}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+        {NUMERIC_SETTINGS.map(setting => (
+          <div key={setting.key} className="space-y-1">
+            <label className="block text-sm font-medium text-gray-700">
+              {setting.label}
+            </label>
+            <input
+              type="range"
+              min={setting.min}
+              max={setting.max}
+              step={setting.step}
+              value={options[setting.key]}
+              onChange={(e) => update(setting.key, Number(e.target.value))}
+              className="w-full"
+            />
+            <div className="flex justify-between text-sm text-gray-500">
+              <span>{setting.help}</span>
+              <span className="font-medium text-gray-700">
+                {setting.key === 'maxThresholds' && options.maxThresholds === 0 ? 'All (exact)' : options[setting.key]}
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ModelSettingsPanel;
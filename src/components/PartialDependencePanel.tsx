@@ -0,0 +1,216 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as d3 from 'd3';
+import { LineChart, X } from 'lucide-react';
+import { DataPoint, TreeNode, formatEstimate, predictFromTree } from '../utils/dataLoader';
+import { FeatureDomain } from '../utils/counterfactuals';
+import { computePartialDependence } from '../utils/partialDependence';
+
+interface PartialDependencePanelProps {
+  tree: TreeNode;
+  data: DataPoint[];
+  features: FeatureDomain[];
+  feature: string;
+  onFeatureChange: (feature: string) => void;
+  input: { [key: string]: string | number };
+  targetColumn: string;
+  onClose: () => void;
+}
+
+const PartialDependencePanel: React.FC<PartialDependencePanelProps> = ({
+  tree,
+  data,
+  features,
+  feature,
+  onFeatureChange,
+  input,
+  targetColumn,
+  onClose
+}) => {
+  const chartRef = useRef<SVGSVGElement>(null);
+  const regression = tree.task === 'regression';
+  const classes = useMemo(() => Object.keys(tree.distribution || {}).sort(), [tree]);
+  const [chosenClass, setChosenClass] = useState<string | null>(null);
+
+  // Defaults to the class currently predicted for the inputs
+  const outputClass = regression
+    ? undefined
+    : chosenClass !== null && classes.includes(chosenClass)
+      ? chosenClass
+      : predictFromTree(tree, input).prediction;
+
+  const domain = features.find(f => f.name === feature);
+  const dependence = useMemo(
+    () => (domain ? computePartialDependence(tree, data, domain, outputClass) : null),
+    [tree, data, domain, outputClass]
+  );
+  const currentValue = input[feature];
+
+  useEffect(() => {
+    if (!chartRef.current || !dependence || dependence.grid.length === 0) return;
+
+    d3.select(chartRef.current).selectAll("*").remove();
+
+    const margin = { top: 20, right: 30, bottom: 60, left: 70 };
+    const width = 640 - margin.left - margin.right;
+    const height = 320 - margin.top - margin.bottom;
+
+    const svg = d3
+      .select(chartRef.current)
+      .attr("width", width + margin.left + margin.right)
+      .attr("height", height + margin.top + margin.bottom)
+      .append("g")
+      .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    const allValues = [...dependence.average, ...dependence.ice.flatMap(line => line.values)];
+    const y = d3.scaleLinear()
+      .domain(regression ? (d3.extent(allValues) as [number, number]) : [0, 1])
+      .nice()
+      .range([height, 0]);
+
+    // Numeric features draw as steps, since the tree is constant between thresholds
+    let xPosition: (value: number | string) => number;
+    let line: d3.Line<[number, number]>;
+    if (dependence.numeric) {
+      const grid = dependence.grid as number[];
+      const x = d3.scaleLinear().domain([grid[0], grid[grid.length - 1]]).range([0, width]);
+      xPosition = (value) => x(Number(value));
+      line = d3.line<[number, number]>().x(d => x(d[0])).y(d => y(d[1])).curve(d3.curveStepBefore);
+      svg.append("g")
+        .attr("transform", `translate(0,${height})`)
+        .call(d3.axisBottom(x).ticks(6));
+    } else {
+      const x = d3.scalePoint<string>().domain(dependence.grid.map(String)).range([0, width]).padding(0.5);
+      xPosition = (value) => x(String(value)) ?? 0;
+      line = d3.line<[number, number]>().x(d => d[0]).y(d => y(d[1]));
+      svg.append("g")
+        .attr("transform", `translate(0,${height})`)
+        .call(d3.axisBottom(x))
+        .selectAll("text")
+        .attr("transform", "rotate(-30)")
+        .style("text-anchor", "end");
+    }
+
+    const points = (values: number[]): [number, number][] =>
+      values.map((value, k) => [
+        dependence.numeric ? Number(dependence.grid[k]) : xPosition(dependence.grid[k]),
+        value
+      ]);
+
+    svg.append("g")
+      .call(d3.axisLeft(y).ticks(5).tickFormat(regression ? d3.format("~s") : d3.format(".0%")));
+
+    svg.append("text")
+      .attr("transform", `translate(${width / 2}, ${height + 50})`)
+      .style("text-anchor", "middle")
+      .style("font-size", "12px")
+      .text(feature);
+
+    svg.append("text")
+      .attr("transform", "rotate(-90)")
+      .attr("x", -height / 2)
+      .attr("y", -55)
+      .style("text-anchor", "middle")
+      .style("font-size", "12px")
+      .text(regression ? `Predicted ${targetColumn}` : `P(${targetColumn} = ${outputClass})`);
+
+    svg.selectAll(".ice")
+      .data(dependence.ice)
+      .join("path")
+      .attr("class", "ice")
+      .attr("d", (d) => line(points(d.values)))
+      .style("fill", "none")
+      .style("stroke", "#9ca3af")
+      .style("stroke-opacity", 0.35)
+      .style("stroke-width", "1px");
+
+    svg.append("path")
+      .attr("d", line(points(dependence.average)))
+      .style("fill", "none")
+      .style("stroke", "#4f46e5")
+      .style("stroke-width", "3px");
+
+    if (!dependence.numeric) {
+      svg.selectAll(".pd-point")
+        .data(dependence.average)
+        .join("circle")
+        .attr("class", "pd-point")
+        .attr("cx", (_, k) => xPosition(dependence.grid[k]))
+        .attr("cy", (d) => y(d))
+        .attr("r", 4)
+        .style("fill", "#4f46e5");
+    }
+
+    // Where the current slider value sits
+    if (currentValue !== undefined && currentValue !== '') {
+      const markerX = xPosition(currentValue);
+      svg.append("line")
+        .attr("x1", markerX)
+        .attr("x2", markerX)
+        .attr("y1", 0)
+        .attr("y2", height)
+        .style("stroke", "#ef4444")
+        .style("stroke-dasharray", "4 4");
+      svg.append("text")
+        .attr("x", markerX + 4)
+        .attr("y", 10)
+        .style("font-size", "10px")
+        .style("fill", "#ef4444")
+        .text(`Current: ${typeof currentValue === 'number' ? formatEstimate(currentValue) : currentValue}`);
+    }
+  }, [dependence, currentValue, feature, outputClass, regression, targetColumn]);
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-lg">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-2">
+          <LineChart className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold">Partial Dependence: {feature}</h3>
+        </div>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700" aria-label="Close partial dependence">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-3">
+        The thick line is the average {regression ? 'prediction' : 'predicted probability'} over all {data.length} rows
+        when {feature} is set to each value; grey lines follow {dependence?.ice.length || 0} individual rows (ICE).
+      </p>
+
+      <div className="flex flex-wrap gap-4 mb-3 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          Feature
+          <select
+            value={feature}
+            onChange={(e) => onFeatureChange(e.target.value)}
+            className="p-1 border rounded-lg"
+          >
+            {features.map(f => (
+              <option key={f.name} value={f.name}>{f.name}</option>
+            ))}
+          </select>
+        </label>
+        {!regression && (
+          <label className="flex items-center gap-2">
+            Class
+            <select
+              value={outputClass}
+              onChange={(e) => setChosenClass(e.target.value)}
+              className="p-1 border rounded-lg"
+            >
+              {classes.map(c => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {!domain ? (
+        <p className="text-sm text-gray-500">{feature} has no input control for this target.</p>
+      ) : (
+        <svg ref={chartRef}></svg>
+      )}
+    </div>
+  );
+};
+
+export default PartialDependencePanel;
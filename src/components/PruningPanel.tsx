@@ -0,0 +1,176 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import * as d3 from 'd3';
+import { Scissors } from 'lucide-react';
+import { DataPoint } from '../utils/dataLoader';
+import { PruningStep, validationErrors } from '../utils/pruning';
+
+interface PruningPanelProps {
+  path: PruningStep[];
+  selectedStep: number;
+  onStepChange: (step: number) => void;
+  testData: DataPoint[];
+  targetColumn: string;
+}
+
+const PruningPanel: React.FC<PruningPanelProps> = ({
+  path,
+  selectedStep,
+  onStepChange,
+  testData,
+  targetColumn
+}) => {
+  const chartRef = useRef<SVGSVGElement>(null);
+  const regression = path[0]?.tree.task === 'regression';
+
+  const errors = useMemo(
+    () => validationErrors(path, testData, targetColumn),
+    [path, testData, targetColumn]
+  );
+
+  const bestStep = useMemo(() => {
+    if (errors.every(e => Number.isNaN(e))) return -1;
+    // Prefer the smallest tree among equally good ones
+    return errors.reduce((best, error, i) => (error <= errors[best] ? i : best), 0);
+  }, [errors]);
+
+  useEffect(() => {
+    if (!chartRef.current || path.length === 0) return;
+
+    d3.select(chartRef.current).selectAll("*").remove();
+
+    const margin = { top: 20, right: 60, bottom: 50, left: 60 };
+    const width = 600 - margin.left - margin.right;
+    const height = 260 - margin.top - margin.bottom;
+
+    const svg = d3
+      .select(chartRef.current)
+      .attr("width", width + margin.left + margin.right)
+      .attr("height", height + margin.top + margin.bottom)
+      .append("g")
+      .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    // Steps are evenly spaced: alphas cluster near zero and would overlap on a linear axis
+    const x = d3.scalePoint<number>().domain(path.map((_, i) => i)).range([0, width]);
+    const y = d3
+      .scaleLinear()
+      .domain([0, d3.max([...errors.filter(e => !Number.isNaN(e)), ...path.map(s => s.cost)]) || 1])
+      .nice()
+      .range([height, 0]);
+
+    svg
+      .append("g")
+      .attr("transform", `translate(0,${height})`)
+      .call(
+        d3.axisBottom(x)
+          .tickValues(path.map((_, i) => i).filter((_, i) => path.length <= 12 || i % Math.ceil(path.length / 12) === 0))
+          .tickFormat((i) => path[i].alpha.toPrecision(2))
+      )
+      .selectAll("text")
+      .style("font-size", "10px");
+
+    svg.append("g").call(d3.axisLeft(y).ticks(5));
+
+    svg.append("text")
+      .attr("transform", `translate(${width / 2}, ${height + 40})`)
+      .style("text-anchor", "middle")
+      .style("font-size", "12px")
+      .text("Alpha (complexity penalty)");
+
+    const series: { key: string; color: string; values: number[] }[] = [
+      { key: regression ? "Training MSE" : "Training impurity R(T)", color: "#9ca3af", values: path.map(s => s.cost) },
+      { key: regression ? "Validation MSE" : "Validation error", color: "#4f46e5", values: errors }
+    ];
+
+    series.forEach(({ color, values }) => {
+      const line = d3
+        .line<number>()
+        .defined((d) => !Number.isNaN(d))
+        .x((_, i) => x(i) || 0)
+        .y((d) => y(d))
+        .curve(d3.curveStepAfter);
+
+      svg.append("path")
+        .datum(values)
+        .attr("d", line)
+        .style("fill", "none")
+        .style("stroke", color)
+        .style("stroke-width", "2px");
+    });
+
+    // Current position of the slider
+    svg.append("line")
+      .attr("x1", x(selectedStep) || 0)
+      .attr("x2", x(selectedStep) || 0)
+      .attr("y1", 0)
+      .attr("y2", height)
+      .style("stroke", "#f59e0b")
+      .style("stroke-width", "2px")
+      .style("stroke-dasharray", "4 3");
+
+    const legend = svg.append("g").attr("transform", `translate(${width - 150}, 0)`);
+    series.forEach(({ key, color }, i) => {
+      legend.append("rect")
+        .attr("x", 0)
+        .attr("y", i * 16)
+        .attr("width", 10)
+        .attr("height", 10)
+        .style("fill", color);
+      legend.append("text")
+        .attr("x", 14)
+        .attr("y", i * 16 + 9)
+        .style("font-size", "11px")
+        .text(key);
+    });
+  }, [path, errors, selectedStep, regression]);
+
+  const step = path[selectedStep];
+  if (!step) return null;
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <Scissors className="w-5 h-5 text-indigo-600" />
+        <h3 className="text-lg font-semibold">Cost-Complexity Pruning</h3>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Larger alpha charges more per leaf, collapsing the weakest subtrees first. Small alpha overfits the training
+        rows; large alpha underfits everything.
+      </p>
+
+      <div className="space-y-1 mb-4">
+        <input
+          type="range"
+          min={0}
+          max={path.length - 1}
+          step={1}
+          value={selectedStep}
+          onChange={(e) => onStepChange(Number(e.target.value))}
+          className="w-full"
+        />
+        <div className="flex flex-wrap justify-between gap-2 text-sm text-gray-500">
+          <span>Unpruned</span>
+          <span className="font-medium text-gray-700">
+            α = {step.alpha.toPrecision(3)} · {step.leaves} leaves
+            {!Number.isNaN(errors[selectedStep]) && (regression
+              ? ` · validation MSE ${errors[selectedStep].toPrecision(4)}`
+              : ` · validation error ${(errors[selectedStep] * 100).toFixed(1)}%`)}
+          </span>
+          <span>Root only</span>
+        </div>
+      </div>
+
+      {bestStep >= 0 && bestStep !== selectedStep && (
+        <button
+          onClick={() => onStepChange(bestStep)}
+          className="mb-4 text-sm text-indigo-600 hover:text-indigo-800"
+        >
+          Jump to lowest validation error (α = {path[bestStep].alpha.toPrecision(3)}, {path[bestStep].leaves} leaves)
+        </button>
+      )}
+
+      <svg ref={chartRef}></svg>
+    </div>
+  );
+};
+
+export default PruningPanel;
@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import * as d3 from 'd3';
+import { Target } from 'lucide-react';
+import { DataPoint, TreeNode } from '../utils/dataLoader';
+import { evaluateRegression } from '../utils/evaluation';
+
+interface RegressionEvaluationPanelProps {
+  tree: TreeNode;
+  testData: DataPoint[];
+  trainSize: number;
+  targetColumn: string;
+  testFraction: number;
+  onTestFractionChange: (fraction: number) => void;
+}
+
+const formatMetric = (value: number) => Number(value.toPrecision(4)).toLocaleString();
+
+const RegressionEvaluationPanel: React.FC<RegressionEvaluationPanelProps> = ({
+  tree,
+  testData,
+  trainSize,
+  targetColumn,
+  testFraction,
+  onTestFractionChange
+}) => {
+  const scatterRef = useRef<SVGSVGElement>(null);
+
+  const evaluation = useMemo(
+    () => evaluateRegression(tree, testData, targetColumn),
+    [tree, testData, targetColumn]
+  );
+
+  useEffect(() => {
+    if (!scatterRef.current || evaluation.testSize === 0) return;
+
+    d3.select(scatterRef.current).selectAll("*").remove();
+
+    const margin = { top: 20, right: 20, bottom: 50, left: 70 };
+    const width = 380 - margin.left - margin.right;
+    const height = 320 - margin.top - margin.bottom;
+
+    const svg = d3
+      .select(scatterRef.current)
+      .attr("width", width + margin.left + margin.right)
+      .attr("height", height + margin.top + margin.bottom)
+      .append("g")
+      .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    // Shared domain so the diagonal marks perfect predictions
+    const values = evaluation.points.flatMap(p => [p.actual, p.predicted]);
+    const domain = d3.extent(values) as [number, number];
+    const x = d3.scaleLinear().domain(domain).nice().range([0, width]);
+    const y = d3.scaleLinear().domain(x.domain()).range([height, 0]);
+
+    svg
+      .append("g")
+      .attr("transform", `translate(0,${height})`)
+      .call(d3.axisBottom(x).ticks(5));
+
+    svg.append("g").call(d3.axisLeft(y).ticks(5));
+
+    svg.append("text")
+      .attr("transform", `translate(${width / 2}, ${height + 40})`)
+      .style("text-anchor", "middle")
+      .style("font-size", "12px")
+      .text(`Actual ${targetColumn}`);
+
+    svg.append("text")
+      .attr("transform", "rotate(-90)")
+      .attr("x", -height / 2)
+      .attr("y", -55)
+      .style("text-anchor", "middle")
+      .style("font-size", "12px")
+      .text("Predicted (leaf mean)");
+
+    svg.append("line")
+      .attr("x1", x(x.domain()[0]))
+      .attr("y1", y(x.domain()[0]))
+      .attr("x2", x(x.domain()[1]))
+      .attr("y2", y(x.domain()[1]))
+      .style("stroke", "#d1d5db")
+      .style("stroke-dasharray", "4 4");
+
+    svg.selectAll(".point")
+      .data(evaluation.points)
+      .join("circle")
+      .attr("class", "point")
+      .attr("cx", (d) => x(d.actual))
+      .attr("cy", (d) => y(d.predicted))
+      .attr("r", 3)
+      .style("fill", "#4f46e5")
+      .style("fill-opacity", 0.5)
+      .append("title")
+      .text((d) => `Actual ${d.actual}, predicted ${formatMetric(d.predicted)}`);
+  }, [evaluation, targetColumn]);
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-lg">
+      <div className="flex items-center gap-2 mb-2">
+        <Target className="w-5 h-5 text-indigo-600" />
+        <h3 className="text-lg font-semibold">Holdout Evaluation</h3>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm text-gray-700">
+        <label className="flex items-center gap-2">
+          Test split
+          <input
+            type="range"
+            min={0.1}
+            max={0.5}
+            step={0.05}
+            value={testFraction}
+            onChange={(e) => onTestFractionChange(Number(e.target.value))}
+          />
+          <span className="font-medium">{(testFraction * 100).toFixed(1)}%</span>
+        </label>
+        <span>Train rows: {trainSize}</span>
+        <span>Test rows: {evaluation.testSize}</span>
+        <span className="text-gray-500">Random split</span>
+      </div>
+
+      {evaluation.testSize === 0 ? (
+        <p className="text-sm text-gray-500">Not enough rows to hold out a test set.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="grid grid-cols-1 sm:grid-cols-3 lg:grid-cols-1 gap-4 content-start">
+            <div className="p-4 bg-indigo-50 rounded-lg">
+              <h4 className="font-semibold text-indigo-900">RMSE</h4>
+              <p className="text-2xl text-indigo-700">{formatMetric(evaluation.rmse)}</p>
+              <p className="text-xs text-gray-500">Typical error, in units of {targetColumn}</p>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <h4 className="font-semibold text-gray-900">MAE</h4>
+              <p className="text-2xl text-gray-700">{formatMetric(evaluation.mae)}</p>
+              <p className="text-xs text-gray-500">Mean absolute error</p>
+            </div>
+            <div className="p-4 bg-gray-50 rounded-lg">
+              <h4 className="font-semibold text-gray-900">R²</h4>
+              <p className="text-2xl text-gray-700">{evaluation.r2.toFixed(3)}</p>
+              <p className="text-xs text-gray-500">Share of the test variance explained; 0 is no better than the mean</p>
+            </div>
+          </div>
+
+          <div>
+            <h4 className="font-semibold text-gray-900 mb-2">Predicted vs Actual</h4>
+            <svg ref={scatterRef}></svg>
+            <p className="text-xs text-gray-500">
+              Each leaf predicts one value, so the points form horizontal bands; the dashed line is a perfect fit.
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegressionEvaluationPanel;
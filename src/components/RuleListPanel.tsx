@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { List, Download, Search } from 'lucide-react';
+import { TreeNode, formatEstimate } from '../utils/dataLoader';
+import { TreeRule, extractRules, ruleText, rulesToCsv, rulesToMarkdown } from '../utils/ruleList';
+import { downloadBlob } from '../utils/imageExport';
+
+interface RuleListPanelProps {
+  tree: TreeNode;
+  targetColumn: string;
+  datasetName: string;
+  // Leaf of the highlighted path, if any
+  selectedLeaf: TreeNode | null;
+  onSelectRule: (rule: TreeRule) => void;
+}
+
+type SortKey = 'samples' | 'confidence' | 'prediction';
+
+const SORT_OPTIONS: { value: SortKey; label: string }[] = [
+  { value: 'samples', label: 'Support' },
+  { value: 'confidence', label: 'Confidence' },
+  { value: 'prediction', label: 'Prediction' }
+];
+
+const RuleListPanel: React.FC<RuleListPanelProps> = ({
+  tree,
+  targetColumn,
+  datasetName,
+  selectedLeaf,
+  onSelectRule
+}) => {
+  const [sortKey, setSortKey] = useState<SortKey>('samples');
+  const [query, setQuery] = useState('');
+  const regression = tree.task === 'regression';
+
+  const rules = useMemo(() => extractRules(tree), [tree]);
+  const totalSamples = tree.samples || 0;
+
+  const visibleRules = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const filtered = needle
+      ? rules.filter(rule => ruleText(rule, targetColumn).toLowerCase().includes(needle))
+      : rules;
+
+    return [...filtered].sort((a, b) => {
+      switch (sortKey) {
+        case 'samples':
+          return b.samples - a.samples;
+        case 'confidence':
+          // Regression rules have no confidence; a tighter leaf is the more certain one
+          return regression ? (a.std || 0) - (b.std || 0) : b.confidence - a.confidence;
+        case 'prediction':
+          return regression
+            ? (b.mean || 0) - (a.mean || 0)
+            : a.prediction.localeCompare(b.prediction) || b.samples - a.samples;
+      }
+    });
+  }, [rules, query, sortKey, regression, targetColumn]);
+
+  const download = (format: 'csv' | 'markdown') => {
+    const contents = format === 'csv' ? rulesToCsv(visibleRules, targetColumn) : rulesToMarkdown(visibleRules, targetColumn);
+    downloadBlob(
+      new Blob([contents], { type: format === 'csv' ? 'text/csv' : 'text/markdown' }),
+      `${datasetName.replace(/\s+/g, '_')}_rules.${format === 'csv' ? 'csv' : 'md'}`
+    );
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-lg shadow-lg">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <div className="flex items-center gap-2">
+          <List className="w-5 h-5 text-indigo-600" />
+          <h3 className="text-lg font-semibold">Rules ({rules.length})</h3>
+        </div>
+        <div className="flex gap-2 text-sm">
+          <button
+            onClick={() => download('csv')}
+            className="flex items-center gap-1 px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            <Download className="w-4 h-4" />
+            CSV
+          </button>
+          <button
+            onClick={() => download('markdown')}
+            className="flex items-center gap-1 px-3 py-1 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-50"
+          >
+            <Download className="w-4 h-4" />
+            Markdown
+          </button>
+        </div>
+      </div>
+      <p className="text-sm text-gray-600 mb-3">
+        One rule per leaf, with repeated conditions on a feature merged. Click a rule to highlight its path in the tree.
+      </p>
+
+      <div className="flex flex-wrap items-center gap-4 mb-3 text-sm text-gray-700">
+        <label className="flex items-center gap-2 flex-1 min-w-[200px]">
+          <Search className="w-4 h-4 text-gray-400" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Filter rules, e.g. a feature or class"
+            className="w-full p-1 border rounded-lg"
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Sort by
+          <select
+            value={sortKey}
+            onChange={(e) => setSortKey(e.target.value as SortKey)}
+            className="p-1 border rounded-lg"
+          >
+            {SORT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>
+                {regression && option.value === 'confidence' ? 'Spread' : option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <div className="max-h-96 overflow-auto">
+        <table className="w-full text-sm">
+          <thead className="sticky top-0 bg-white">
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-4">Rule</th>
+              <th className="py-2 pr-4">Support</th>
+              <th className="py-2 pr-4">{regression ? 'Std' : 'Confidence'}</th>
+              {!regression && <th className="py-2">Distribution</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {visibleRules.map(rule => {
+              const leaf = rule.path[rule.path.length - 1];
+              return (
+                <tr
+                  key={rules.indexOf(rule)}
+                  onClick={() => onSelectRule(rule)}
+                  className={`border-b cursor-pointer hover:bg-indigo-50 ${leaf === selectedLeaf ? 'bg-indigo-100' : ''}`}
+                >
+                  <td className="py-2 pr-4 text-gray-800">
+                    <span className="text-gray-500">IF</span>{' '}
+                    {rule.conditions.length > 0 ? rule.conditions.join(' AND ') : 'always'}{' '}
+                    <span className="text-gray-500">THEN</span>{' '}
+                    <span className="font-semibold text-indigo-700">
+                      {rule.mean !== undefined ? formatEstimate(rule.mean) : rule.prediction}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 whitespace-nowrap">
+                    {rule.samples}
+                    {totalSamples > 0 && (
+                      <span className="text-gray-500"> ({((rule.samples / totalSamples) * 100).toFixed(1)}%)</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4">
+                    {regression ? formatEstimate(rule.std || 0) : `${(rule.confidence * 100).toFixed(1)}%`}
+                  </td>
+                  {!regression && (
+                    <td className="py-2 text-gray-600">
+                      {Object.entries(rule.distribution).map(([label, count]) => `${label}: ${count}`).join(', ')}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {visibleRules.length === 0 && (
+          <p className="py-4 text-sm text-gray-500">No rules match "{query}".</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RuleListPanel;
@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import * as d3 from 'd3';
+import { TreeNode, formatEstimate } from '../utils/dataLoader';
+import { explainPrediction } from '../utils/treeShap';
+
+interface ShapWaterfallProps {
+  tree: TreeNode;
+  input: { [key: string]: string | number };
+  targetColumn: string;
+}
+
+// Features beyond this many are folded into one bar
+const MAX_BARS = 8;
+
+const formatOutput = (value: number, regression: boolean) =>
+  regression ? formatEstimate(value) : `${(value * 100).toFixed(1)}%`;
+
+interface WaterfallStep {
+  label: string;
+  start: number;
+  end: number;
+}
+
+const ShapWaterfall: React.FC<ShapWaterfallProps> = ({ tree, input, targetColumn }) => {
+  const chartRef = useRef<SVGSVGElement>(null);
+
+  const { explanation, error } = useMemo(() => {
+    try {
+      return { explanation: explainPrediction(tree, input), error: null };
+    } catch (err) {
+      console.error("Error computing SHAP values:", err);
+      return { explanation: null, error: err instanceof Error ? err.message : String(err) };
+    }
+  }, [tree, input]);
+
+  const regression = explanation?.outputClass === undefined;
+
+  useEffect(() => {
+    if (!chartRef.current || !explanation) return;
+
+    d3.select(chartRef.current).selectAll("*").remove();
+
+    const shown = explanation.contributions.filter(c => c.contribution !== 0);
+    const top = shown.slice(0, MAX_BARS);
+    const rest = shown.slice(MAX_BARS).reduce((sum, c) => sum + c.contribution, 0);
+
+    const steps: WaterfallStep[] = [];
+    let running = explanation.baseValue;
+    top.forEach(c => {
+      const value = c.value === undefined ? '' : ` = ${typeof c.value === 'number' ? formatEstimate(c.value) : c.value}`;
+      steps.push({ label: `${c.label}${value}`, start: running, end: running + c.contribution });
+      running += c.contribution;
+    });
+    if (shown.length > MAX_BARS) {
+      steps.push({ label: `${shown.length - MAX_BARS} other features`, start: running, end: running + rest });
+    }
+
+    const margin = { top: 10, right: 60, bottom: 40, left: 170 };
+    const width = 460 - margin.left - margin.right;
+    const rowHeight = 24;
+    const height = Math.max(steps.length, 1) * rowHeight;
+
+    const svg = d3
+      .select(chartRef.current)
+      .attr("width", width + margin.left + margin.right)
+      .attr("height", height + margin.top + margin.bottom)
+      .append("g")
+      .attr("transform", `translate(${margin.left},${margin.top})`);
+
+    const values = [explanation.baseValue, explanation.outputValue, ...steps.flatMap(s => [s.start, s.end])];
+    const x = d3.scaleLinear()
+      .domain(d3.extent(values) as [number, number])
+      .nice()
+      .range([0, width]);
+    const y = d3.scaleBand()
+      .domain(steps.map((_, i) => String(i)))
+      .range([0, height])
+      .padding(0.2);
+
+    svg.append("g")
+      .attr("transform", `translate(0,${height})`)
+      .call(d3.axisBottom(x).ticks(5).tickFormat((d) => formatOutput(Number(d), regression)));
+
+    // Reference lines for where the explanation starts and ends, labelled away from each other
+    const increases = explanation.outputValue >= explanation.baseValue;
+    [
+      {
+        value: explanation.baseValue,
+        text: `Base ${formatOutput(explanation.baseValue, regression)}`,
+        color: "#9ca3af",
+        anchor: increases ? "end" : "start"
+      },
+      {
+        value: explanation.outputValue,
+        text: `Prediction ${formatOutput(explanation.outputValue, regression)}`,
+        color: "#4f46e5",
+        anchor: increases ? "start" : "end"
+      }
+    ].forEach(marker => {
+      svg.append("line")
+        .attr("x1", x(marker.value))
+        .attr("x2", x(marker.value))
+        .attr("y1", 0)
+        .attr("y2", height)
+        .style("stroke", marker.color)
+        .style("stroke-dasharray", "4 4");
+      svg.append("text")
+        .attr("x", x(marker.value))
+        .attr("y", height + 34)
+        .style("text-anchor", marker.anchor)
+        .style("font-size", "10px")
+        .style("fill", marker.color)
+        .text(marker.text);
+    });
+
+    svg.selectAll(".step")
+      .data(steps)
+      .join("rect")
+      .attr("class", "step")
+      .attr("x", (d) => x(Math.min(d.start, d.end)))
+      .attr("y", (_, i) => y(String(i))!)
+      .attr("width", (d) => Math.max(1, Math.abs(x(d.end) - x(d.start))))
+      .attr("height", y.bandwidth())
+      .style("fill", (d) => (d.end >= d.start ? "#4f46e5" : "#ef4444"));
+
+    svg.selectAll(".step-label")
+      .data(steps)
+      .join("text")
+      .attr("class", "step-label")
+      .attr("x", -8)
+      .attr("y", (_, i) => y(String(i))! + y.bandwidth() / 2)
+      .attr("dy", "0.35em")
+      .style("text-anchor", "end")
+      .style("font-size", "11px")
+      .text((d) => (d.label.length > 28 ? `${d.label.slice(0, 27)}…` : d.label));
+
+    svg.selectAll(".step-value")
+      .data(steps)
+      .join("text")
+      .attr("class", "step-value")
+      .attr("x", (d) => x(Math.max(d.start, d.end)) + 4)
+      .attr("y", (_, i) => y(String(i))! + y.bandwidth() / 2)
+      .attr("dy", "0.35em")
+      .style("font-size", "10px")
+      .style("fill", (d) => (d.end >= d.start ? "#4f46e5" : "#ef4444"))
+      .text((d) => {
+        const delta = d.end - d.start;
+        const text = regression ? formatEstimate(Math.abs(delta)) : `${(Math.abs(delta) * 100).toFixed(1)} pts`;
+        return `${delta >= 0 ? '+' : '−'}${text}`;
+      });
+  }, [explanation, regression]);
+
+  if (error) {
+    return <p className="text-sm text-gray-500">Feature attributions unavailable: {error}</p>;
+  }
+  if (!explanation) return null;
+
+  return (
+    <div className="p-4 bg-gray-50 rounded-lg">
+      <h4 className="font-semibold text-gray-900">Why this prediction?</h4>
+      <p className="text-xs text-gray-500 mb-2">
+        TreeSHAP contribution of each feature, from the training{' '}
+        {regression
+          ? `mean ${targetColumn}`
+          : `rate of "${explanation.outputClass}"`}{' '}
+        to this input's {regression ? 'estimate' : 'predicted probability'}.
+      </p>
+      {explanation.contributions.length === 0 ? (
+        <p className="text-sm text-gray-500">The tree has no splits, so every input gets the base {regression ? 'mean' : 'rate'}.</p>
+      ) : (
+        <svg ref={chartRef}></svg>
+      )}
+    </div>
+  );
+};
+
+export default ShapWaterfall;
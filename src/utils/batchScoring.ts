@@ -0,0 +1,147 @@
+import Papa from 'papaparse';
+import { DataPoint, TreeNode, formatEstimate, formatThreshold, isBlank } from './dataLoader';
+import { FeatureDomain } from './counterfactuals';
+import { splitFeatures } from './featureImportance';
+
+export interface BatchIssue {
+  // Errors stop a row from being scored; warnings are scored but may be unreliable
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface BatchSchema {
+  // Feature name → header in the uploaded file, matched ignoring surrounding whitespace
+  columns: { [feature: string]: string };
+  // Features the tree splits on that the file doesn't have; nothing can be scored without them
+  missing: string[];
+  // Features the file doesn't have but the tree never uses
+  ignoredMissing: string[];
+  // Columns in the file that aren't model features; kept in the download untouched
+  extra: string[];
+}
+
+export interface ScoredRow {
+  index: number;
+  row: DataPoint;
+  // The row's feature values, typed for the input controls
+  input: { [key: string]: string | number };
+  issues: BatchIssue[];
+  leaf?: TreeNode;
+  path: string;
+}
+
+export interface BatchResult {
+  schema: BatchSchema;
+  rows: ScoredRow[];
+}
+
+// Raw column keys the tree splits on
+const usedFeatures = (tree: TreeNode): Set<string> => new Set(splitFeatures([tree]).map(f => f.key));
+
+export const checkColumns = (headers: string[], features: FeatureDomain[], tree: TreeNode): BatchSchema => {
+  const used = usedFeatures(tree);
+  const byName = new Map(headers.map(header => [header.trim(), header]));
+  const columns: { [feature: string]: string } = {};
+  const missing: string[] = [];
+  const ignoredMissing: string[] = [];
+
+  features.forEach(feature => {
+    const header = byName.get(feature.name.trim());
+    if (header !== undefined) columns[feature.name] = header;
+    else if (used.has(feature.name)) missing.push(feature.name);
+    else ignoredMissing.push(feature.name);
+  });
+
+  const mapped = new Set(Object.values(columns));
+  return { columns, missing, ignoredMissing, extra: headers.filter(header => !mapped.has(header)) };
+};
+
+// Root-to-leaf conditions for `input`, e.g. `age ≤ 40.5 → sex = "Male"`
+export const decisionPath = (tree: TreeNode, input: { [key: string]: string | number }): { leaf: TreeNode; text: string } => {
+  const steps: string[] = [];
+  let node = tree;
+
+  while (node.children && node.feature !== undefined && node.threshold !== undefined) {
+    const value = input[node.feature];
+    if (typeof node.threshold === 'number') {
+      const left = Number(value) <= node.threshold;
+      steps.push(`${node.name} ${left ? '≤' : '>'} ${formatThreshold(node.threshold)}`);
+      node = node.children[left ? 0 : 1];
+    } else {
+      const left = String(value) === node.threshold;
+      steps.push(`${node.name} ${left ? '=' : '≠'} "${node.threshold}"`);
+      node = node.children[left ? 0 : 1];
+    }
+  }
+
+  return { leaf: node, text: steps.join(' → ') };
+};
+
+/**
+ * Scores every row with `tree`. Values are checked against the feature
+ * inputs the tree was trained with: missing or non-numeric values in a
+ * feature the tree splits on are errors, while values outside the training
+ * range or categories never seen in training are scored with a warning.
+ */
+export const scoreBatch = (rows: DataPoint[], features: FeatureDomain[], tree: TreeNode): BatchResult => {
+  const schema = checkColumns(Object.keys(rows[0] || {}), features, tree);
+  const used = usedFeatures(tree);
+
+  const scored = rows.map((row, index): ScoredRow => {
+    const input: { [key: string]: string | number } = {};
+    const issues: BatchIssue[] = [];
+
+    features.forEach(feature => {
+      const column = schema.columns[feature.name];
+      if (column === undefined) return;
+      const raw = row[column];
+      const checked = used.has(feature.name);
+
+      if (isBlank(raw)) {
+        if (checked) issues.push({ severity: 'error', message: `${feature.name} is empty` });
+        return;
+      }
+
+      if (feature.type === 'numeric') {
+        const value = Number(raw);
+        if (Number.isNaN(value)) {
+          if (checked) issues.push({ severity: 'error', message: `${feature.name} "${raw}" is not a number` });
+          return;
+        }
+        input[feature.name] = value;
+        if (checked && feature.min !== undefined && feature.max !== undefined && (value < feature.min || value > feature.max)) {
+          issues.push({
+            severity: 'warning',
+            message: `${feature.name} ${formatEstimate(value)} is outside the training range ${formatEstimate(feature.min)}–${formatEstimate(feature.max)}`
+          });
+        }
+      } else {
+        const value = String(raw);
+        input[feature.name] = value;
+        if (checked && feature.options && !feature.options.includes(value)) {
+          issues.push({ severity: 'warning', message: `${feature.name} "${value}" was not seen in training` });
+        }
+      }
+    });
+
+    if (schema.missing.length > 0 || issues.some(issue => issue.severity === 'error')) {
+      return { index, row, input, issues, path: '' };
+    }
+    const { leaf, text } = decisionPath(tree, input);
+    return { index, row, input, issues, leaf, path: text };
+  });
+
+  return { schema, rows: scored };
+};
+
+// The uploaded rows with the prediction, leaf confidence (or spread) and decision path appended
+export const scoredRowsToCsv = (rows: ScoredRow[], target: string, regression: boolean): string =>
+  Papa.unparse(rows.map(({ row, leaf, path, issues }) => ({
+    ...row,
+    [`predicted_${target}`]: leaf ? (regression ? leaf.mean ?? '' : leaf.name) : '',
+    ...(regression
+      ? { leaf_std: leaf?.std ?? '' }
+      : { leaf_confidence: leaf?.confidence !== undefined ? Number(leaf.confidence.toFixed(4)) : '' }),
+    decision_path: path,
+    issues: issues.map(issue => issue.message).join('; ')
+  })));
@@ -0,0 +1,186 @@
+import { DataPoint, TreeNode, findLeaf, predictFromTree } from './dataLoader';
+
+export type CodeLanguage = 'typescript' | 'python' | 'sql';
+
+export const CODE_LANGUAGES: { value: CodeLanguage; label: string; extension: string }[] = [
+  { value: 'typescript', label: 'TypeScript', extension: 'ts' },
+  { value: 'python', label: 'Python', extension: 'py' },
+  { value: 'sql', label: 'SQL', extension: 'sql' }
+];
+
+export interface VerificationResult {
+  rowsChecked: number;
+  mismatches: { row: number; expected: string; actual: string }[];
+}
+
+// Leaf output: the class label, or the full-precision mean for regression
+const leafValue = (leaf: TreeNode): string =>
+  leaf.mean !== undefined ? JSON.stringify(leaf.mean) : JSON.stringify(leaf.name);
+
+const isSplit = (node: TreeNode): node is TreeNode & { children: TreeNode[]; feature: string; threshold: number | string } =>
+  !!node.children && node.feature !== undefined && node.threshold !== undefined;
+
+// Body of the TypeScript function; also evaluated as JavaScript to verify it
+const typeScriptBody = (node: TreeNode, indent: string): string => {
+  if (!isSplit(node)) return `${indent}return ${leafValue(node)};`;
+
+  const value = `row[${JSON.stringify(node.feature)}]`;
+  const test = typeof node.threshold === 'number'
+    ? `Number(${value}) <= ${JSON.stringify(node.threshold)}`
+    : `String(${value}) === ${JSON.stringify(node.threshold)}`;
+
+  return [
+    `${indent}if (${test}) {`,
+    typeScriptBody(node.children[0], `${indent}  `),
+    `${indent}} else {`,
+    typeScriptBody(node.children[1], `${indent}  `),
+    `${indent}}`
+  ].join('\n');
+};
+
+const pythonBody = (node: TreeNode, indent: string): string => {
+  if (!isSplit(node)) return `${indent}return ${leafValue(node)}`;
+
+  const value = `row.get(${JSON.stringify(node.feature)}, _ABSENT)`;
+  const test = typeof node.threshold === 'number'
+    ? `_to_number(${value}) <= ${JSON.stringify(node.threshold)}`
+    : `_to_string(${value}) == ${JSON.stringify(node.threshold)}`;
+
+  return [
+    `${indent}if ${test}:`,
+    pythonBody(node.children[0], `${indent}    `),
+    `${indent}else:`,
+    pythonBody(node.children[1], `${indent}    `)
+  ].join('\n');
+};
+
+const sqlIdentifier = (name: string) => `"${name.replace(/"/g, '""')}"`;
+const sqlString = (text: string) => `'${text.replace(/'/g, "''")}'`;
+
+// NULL stands for a blank cell and is coalesced the way JavaScript converts null; the text
+// cast keeps categorical comparisons valid on strictly typed databases when the column is numeric
+const sqlExpression = (node: TreeNode, indent: string): string => {
+  if (!isSplit(node)) {
+    return `${indent}${node.mean !== undefined ? JSON.stringify(node.mean) : sqlString(node.name)}`;
+  }
+
+  const column = sqlIdentifier(node.feature);
+  const test = typeof node.threshold === 'number'
+    ? `COALESCE(${column}, 0) <= ${JSON.stringify(node.threshold)}`
+    : `COALESCE(CAST(${column} AS VARCHAR), 'null') = ${sqlString(node.threshold)}`;
+
+  return [
+    `${indent}CASE WHEN ${test} THEN`,
+    sqlExpression(node.children[0], `${indent}  `),
+    `${indent}ELSE`,
+    sqlExpression(node.children[1], `${indent}  `),
+    `${indent}END`
+  ].join('\n');
+};
+
+/**
+ * Compiles the tree into a self-contained scoring function. Numeric splits
+ * send values <= threshold to the first branch and categorical splits compare
+ * the value as a string, exactly as `predictFromTree` does. Missing values
+ * follow JavaScript's conversions in every language: a null cell is 0 in
+ * numeric splits and "null" in categorical ones, while an absent column is
+ * NaN (never <= anything) and "undefined".
+ */
+export const generateScoringCode = (tree: TreeNode, language: CodeLanguage, target: string): string => {
+  const regression = tree.task === 'regression';
+  const description = `Decision tree ${regression ? 'estimating' : 'predicting'} "${target}", generated by the XAI Decision Tree Explorer.`;
+
+  switch (language) {
+    case 'typescript':
+      return [
+        `// ${description}`,
+        '// Numeric splits compare Number(value) <= threshold; categorical splits compare String(value).',
+        '// A null value is 0 in numeric splits and "null" in categorical ones; an absent column is NaN and "undefined".',
+        '',
+        'export type Row = { [column: string]: string | number | null | undefined };',
+        '',
+        `export function predict(row: Row): ${regression ? 'number' : 'string'} {`,
+        typeScriptBody(tree, '  '),
+        '}',
+        ''
+      ].join('\n');
+    case 'python':
+      return [
+        `# ${description}`,
+        '# Values are converted the way JavaScript does, so results match the explorer.',
+        '# None is treated as JavaScript null: 0 in numeric splits, "null" in categorical ones.',
+        '# An absent column is treated as undefined: NaN in numeric splits, "undefined" in categorical ones.',
+        'import math',
+        '',
+        '_ABSENT = object()',
+        '',
+        '',
+        'def _to_number(value):',
+        '    if value is _ABSENT:',
+        '        return math.nan',
+        '    if value is None:',
+        '        return 0.0',
+        '    if isinstance(value, (int, float)):',
+        '        return float(value)',
+        '    text = str(value).strip()',
+        '    if text == "":',
+        '        return 0.0',
+        '    try:',
+        '        return float(text)',
+        '    except ValueError:',
+        '        return math.nan',
+        '',
+        '',
+        'def _to_string(value):',
+        '    if value is _ABSENT:',
+        '        return "undefined"',
+        '    if value is None:',
+        '        return "null"',
+        '    if isinstance(value, float) and value.is_integer():',
+        '        return str(int(value))',
+        '    return str(value)',
+        '',
+        '',
+        'def predict(row):',
+        `    """Scores one row given as a dict of column name to value."""`,
+        pythonBody(tree, '    '),
+        ''
+      ].join('\n');
+    case 'sql':
+      return [
+        `-- ${description}`,
+        `-- Usage: SELECT *, <expression below> AS ${sqlIdentifier(`predicted_${target}`)} FROM your_table`,
+        '-- NULLs are treated as 0 in numeric splits and as the string \'null\' in categorical ones.',
+        sqlExpression(tree, ''),
+        ''
+      ].join('\n');
+  }
+};
+
+/**
+ * Runs the generated TypeScript logic on every row and compares it with
+ * `predictFromTree`. Only the signature carries type annotations, so the
+ * function body is evaluated as plain JavaScript. Two extra rows, one with
+ * every column null and one with no columns at all, check the missing-value
+ * handling too.
+ */
+export const verifyTypeScript = (tree: TreeNode, data: DataPoint[]): VerificationResult => {
+  const predict = new Function('row', typeScriptBody(tree, '  ')) as (row: DataPoint) => string | number;
+  const mismatches: VerificationResult['mismatches'] = [];
+
+  // Blank CSV cells are parsed to null, though DataPoint's type doesn't admit it
+  const nullRow = Object.fromEntries(Object.keys(data[0] || {}).map(column => [column, null])) as unknown as DataPoint;
+  const rows = data.length > 0 ? [...data, nullRow, {}] : data;
+
+  rows.forEach((row, i) => {
+    const actual = predict(row);
+    const expected = tree.task === 'regression'
+      ? findLeaf(tree, row).mean
+      : predictFromTree(tree, row).prediction;
+    if (actual !== expected) {
+      mismatches.push({ row: i, expected: String(expected), actual: String(actual) });
+    }
+  });
+
+  return { rowsChecked: rows.length, mismatches };
+};
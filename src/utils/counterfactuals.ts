@@ -0,0 +1,163 @@
+import { TreeNode, findLeaf } from './dataLoader';
+
+type Input = { [key: string]: string | number };
+
+// Values a feature control can take; matches the explorer's feature inputs
+export interface FeatureDomain {
+  name: string;
+  type: 'numeric' | 'categorical';
+  options?: string[];
+  min?: number;
+  max?: number;
+}
+
+export interface FeatureChange {
+  feature: string;
+  from: string | number;
+  to: string | number;
+}
+
+export interface Counterfactual {
+  changes: FeatureChange[];
+  prediction: string;
+  confidence: number;
+  // Sum of the changes, each scaled to its feature's range (categorical changes count 1)
+  distance: number;
+}
+
+// What the leaf's path requires of one feature: lower < value <= upper, or equal / not equal to categories
+interface Region {
+  numeric: boolean;
+  lower: number;
+  upper: number;
+  equals?: string;
+  excludes: Set<string>;
+}
+
+const collectLeafRegions = (tree: TreeNode) => {
+  const leaves: { leaf: TreeNode; regions: Map<string, Region> }[] = [];
+
+  const visit = (node: TreeNode, regions: Map<string, Region>) => {
+    if (!node.children || node.feature === undefined || node.threshold === undefined) {
+      leaves.push({ leaf: node, regions });
+      return;
+    }
+
+    const { feature, threshold } = node;
+    node.children.forEach((child, i) => {
+      const next = new Map(regions);
+      const previous = regions.get(feature);
+      const region: Region = previous
+        ? { ...previous, excludes: new Set(previous.excludes) }
+        : { numeric: typeof threshold === 'number', lower: -Infinity, upper: Infinity, excludes: new Set() };
+
+      if (typeof threshold === 'number') {
+        if (i === 0) region.upper = Math.min(region.upper, threshold);
+        else region.lower = Math.max(region.lower, threshold);
+      } else if (i === 0) {
+        region.equals = threshold;
+      } else {
+        region.excludes.add(threshold);
+      }
+
+      next.set(feature, region);
+      visit(child, next);
+    });
+  };
+
+  visit(tree, new Map());
+  return leaves;
+};
+
+// Closest value to `current` inside (lower, upper], preferring whole numbers as the sliders do
+const nearestInRange = (current: number, region: Region, domain?: FeatureDomain): number | null => {
+  const lower = Math.max(region.lower, domain?.min !== undefined ? domain.min - 1e-9 : -Infinity);
+  const upper = Math.min(region.upper, domain?.max ?? Infinity);
+  if (lower >= upper) return null;
+
+  const candidates = current > upper
+    ? [Math.floor(upper), upper]
+    : [Math.floor(lower) + 1, (lower + upper) / 2];
+  return candidates.find(value => value > lower && value <= upper) ?? null;
+};
+
+const nearestCategory = (current: string, region: Region, domain?: FeatureDomain): string | null => {
+  if (region.equals !== undefined) {
+    return region.excludes.has(region.equals) ? null : region.equals;
+  }
+  return (domain?.options || []).find(option => option !== current && !region.excludes.has(option)) ?? null;
+};
+
+const satisfies = (value: string | number | undefined, region: Region): boolean => {
+  if (region.numeric) {
+    const number = Number(value);
+    return number > region.lower && number <= region.upper;
+  }
+  const text = String(value);
+  return (region.equals === undefined || text === region.equals) && !region.excludes.has(text);
+};
+
+/**
+ * Finds the cheapest edits to `input` that land in a leaf predicting another
+ * class. Every leaf's region is a box of per-feature conditions, so the edit
+ * for each leaf is to move each violated feature just inside its bounds.
+ * Results are ranked by the number of features changed, then by how far they
+ * move; locked features are never changed.
+ */
+export const findCounterfactuals = (
+  tree: TreeNode,
+  input: Input,
+  domains: FeatureDomain[],
+  locked: Set<string>,
+  limit = 3
+): Counterfactual[] => {
+  const current = findLeaf(tree, input).name;
+  const domainOf = new Map(domains.map(domain => [domain.name, domain]));
+  const results: Counterfactual[] = [];
+
+  collectLeafRegions(tree).forEach(({ leaf, regions }) => {
+    if (leaf.name === current) return;
+
+    const changes: FeatureChange[] = [];
+    let distance = 0;
+
+    for (const [feature, region] of regions) {
+      const value = input[feature];
+      if (satisfies(value, region)) continue;
+      if (locked.has(feature)) return;
+
+      const domain = domainOf.get(feature);
+      const to = region.numeric
+        ? nearestInRange(Number(value), region, domain)
+        : nearestCategory(String(value), region, domain);
+      if (to === null) return;
+
+      changes.push({ feature, from: value, to });
+      if (typeof to === 'number') {
+        const span = domain?.min !== undefined && domain.max !== undefined ? domain.max - domain.min : 0;
+        distance += span > 0 ? Math.abs(to - Number(value)) / span : 1;
+      } else {
+        distance += 1;
+      }
+    }
+
+    const changed = { ...input, ...Object.fromEntries(changes.map(c => [c.feature, c.to])) };
+    // Guards against rounding pushing a value back across a threshold
+    if (findLeaf(tree, changed) !== leaf) return;
+
+    results.push({ changes, prediction: leaf.name, confidence: leaf.confidence || 0, distance });
+  });
+
+  results.sort((a, b) => a.changes.length - b.changes.length || a.distance - b.distance);
+
+  // Drop edits that reach the same class as a cheaper one while changing a superset of its features
+  const kept: Counterfactual[] = [];
+  results.forEach(result => {
+    const features = new Set(result.changes.map(c => c.feature));
+    const redundant = kept.some(other =>
+      other.prediction === result.prediction && other.changes.every(c => features.has(c.feature))
+    );
+    if (!redundant) kept.push(result);
+  });
+  return kept.slice(0, limit);
+};
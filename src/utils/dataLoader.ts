@@ -1,11 +1,83 @@
 import Papa from 'papaparse';
 import { logEnvironmentInfo, validateDataset, measurePerformance } from './debugHelper';
+import { scoreSplit, scoreRegressionSplit, SplitCriterion } from './splitCriteria';
+import { createRandom, shuffle } from './random';
 
 export interface DataPoint {
   [key: string]: string | number;
 }
 
+export type TreeTask = 'classification' | 'regression';
+
+export interface TreeNode {
+  // Display label: the formatted feature at splits, the prediction at leaves
+  name: string;
+  children?: TreeNode[];
+  value?: number;
+  condition?: string;
+  confidence?: number;
+  // Raw column key used to look up input values; saved models and exports rely on it
+  feature?: string;
+  threshold?: number | string;
+  samples?: number;
+  distribution?: { [key: string]: number };
+  isNumeric?: boolean;
+  prediction?: boolean;
+  criterion?: SplitCriterion;
+  task?: TreeTask;
+  // Regression trees: mean and standard deviation of the target over the node's rows
+  mean?: number;
+  std?: number;
+}
+
+export interface CustomDataset {
+  name: string;
+  data: DataPoint[];
+  targetColumn: string;
+  excludeColumns: string[];
+}
+
+// Shared Papa pipeline for both the bundled datasets and user uploads
+export const parseCsv = (source: string | File): Promise<DataPoint[]> => {
+  return new Promise<DataPoint[]>((resolve, reject) => {
+    Papa.parse<DataPoint>(source, {
+      header: true,
+      dynamicTyping: true,
+      skipEmptyLines: true,
+      complete: (results) => {
+        resolve(results.data);
+      },
+      error: (error: Error) => {
+        reject(error);
+      }
+    });
+  });
+};
+
+export const dropColumns = (data: DataPoint[], columns: string[]): DataPoint[] => {
+  if (columns.length === 0) return data;
+  return data.map(row => {
+    const copy: DataPoint = { ...row };
+    columns.forEach(column => delete copy[column]);
+    return copy;
+  });
+};
+
 export const loadDataset = async (datasetName: string): Promise<DataPoint[]> => {
+  const csvText = await fetchDatasetText(datasetName);
+  const data = await parseCsv(csvText);
+
+  // Before returning, validate the dataset
+  if (!validateDataset(data)) {
+    throw new Error(`Invalid dataset: ${datasetName}`);
+  }
+  
+  return data;
+};
+
+// Downloads the raw CSV for one of the bundled datasets; parsing is left to
+// the caller so it can happen off the main thread
+export const fetchDatasetText = async (datasetName: string): Promise<string> => {
   logEnvironmentInfo();
   
   // Use the measuredPerformance utility to time the data loading
@@ -74,25 +146,7 @@ export const loadDataset = async (datasetName: string): Promise<DataPoint[]> =>
       throw loadError || new Error(`Failed to load dataset ${datasetName} from any path`);
     }
     
-    const data = await new Promise<DataPoint[]>((resolve, reject) => {
-      Papa.parse(csvText, {
-        header: true,
-        dynamicTyping: true,
-        complete: (results) => {
-          resolve(results.data as DataPoint[]);
-        },
-        error: (error) => {
-          reject(error);
-        }
-      });
-    });
-
-    // Before returning, validate the dataset
-    if (!validateDataset(data)) {
-      throw new Error(`Invalid dataset: ${datasetName}`);
-    }
-    
-    return data;
+    return csvText;
   });
 };
 
@@ -128,14 +182,12 @@ const formatFeatureName = (feature: string): string => {
   ).join(' ');
 };
 
-export const predictFromTree = (
-  tree: any,
-  input: { [key: string]: string | number }
-): { prediction: string; confidence: number } => {
+// Follows the split conditions from the root to the leaf that `input` reaches
+export const findLeaf = (tree: TreeNode, input: { [key: string]: string | number }): TreeNode => {
   let currentNode = tree;
 
   while (currentNode.children) {
-    const feature = currentNode.feature;
+    const feature = currentNode.feature || '';
     const value = input[feature];
     const threshold = currentNode.threshold;
     const isNumeric = typeof threshold === 'number';
@@ -151,174 +203,483 @@ export const predictFromTree = (
     }
   }
 
+  return currentNode;
+};
+
+export const predictFromTree = (
+  tree: TreeNode,
+  input: { [key: string]: string | number }
+): { prediction: string; confidence: number } => {
+  const leaf = findLeaf(tree, input);
+
   return {
-    prediction: currentNode.name,
-    confidence: currentNode.confidence || 0
+    prediction: leaf.name,
+    confidence: leaf.confidence || 0
   };
 };
 
-export const buildDecisionTree = (data: DataPoint[], target: string, maxDepth = 4) => {
-  if (maxDepth === 0 || data.length < 5) return null;
+export interface TreeOptions {
+  task: TreeTask;
+  maxDepth: number;
+  minSamplesSplit: number;
+  minSamplesLeaf: number;
+  minGain: number;
+  maxThresholds: number;
+  criterion: SplitCriterion;
+  // Features drawn at random for each split; 0 considers every feature
+  maxFeatures: number;
+  seed: number;
+}
 
-  const getEntropy = (subset: DataPoint[]) => {
-    const counts: { [key: string]: number } = {};
-    subset.forEach(row => {
-      const value = String(row[target]);
-      counts[value] = (counts[value] || 0) + 1;
-    });
-    
-    return -Object.values(counts).reduce((sum, count) => {
-      const p = count / subset.length;
-      return sum + p * Math.log2(p);
-    }, 0);
-  };
+// Depth counts split levels below the root. `maxThresholds` of 0 scores
+// every distinct midpoint, which gives the exact best cut
+export const DEFAULT_TREE_OPTIONS: TreeOptions = {
+  task: 'classification',
+  maxDepth: 3,
+  minSamplesSplit: 10,
+  minSamplesLeaf: 5,
+  minGain: 0.01,
+  maxThresholds: 0,
+  criterion: 'entropy',
+  maxFeatures: 0,
+  seed: 1
+};
 
-  const getDistribution = (subset: DataPoint[]) => {
-    const distribution: { [key: string]: number } = {};
-    subset.forEach(row => {
-      const value = String(row[target]);
-      distribution[value] = (distribution[value] || 0) + 1;
-    });
-    return distribution;
+export interface TreeBuildProgress {
+  nodesExpanded: number;
+  depth: number;
+}
+
+// Null, undefined, empty or whitespace-only cells
+export const isBlank = (value: unknown): boolean =>
+  value === null || value === undefined || String(value).trim() === '';
+
+// True when every non-blank value of the column parsed as a number
+export const isNumericColumn = (data: DataPoint[], column: string): boolean => {
+  const values = data.map(row => row[column]).filter(value => !isBlank(value));
+  return values.length > 0 && values.every(value => typeof value === 'number');
+};
+
+// Numeric feature test used by the input controls and exports: every value
+// converts to a number and none is blank
+export const isNumericFeature = (data: DataPoint[], column: string): boolean =>
+  data.every(row => {
+    const value = row[column];
+    return !isNaN(Number(value)) && value !== null && value !== '';
+  });
+
+// Numeric targets with only a handful of distinct values read better as classes
+export const suggestTask = (data: DataPoint[], target: string): TreeTask =>
+  isNumericColumn(data, target) && new Set(data.map(row => row[target])).size > 10
+    ? 'regression'
+    : 'classification';
+
+export const formatEstimate = (value: number): string => String(Number(value.toFixed(2)));
+
+// Column-wise view of the training rows shared by every node of one build
+interface TrainingContext {
+  data: DataPoint[];
+  options: TreeOptions;
+  classes: string[];
+  // Class index of each row
+  labels: Int32Array;
+  // Target value of each row (regression only)
+  targets: Float64Array;
+  // Per-node target statistics: class counts for classification,
+  // [count, sum, sum of squares] for regression
+  statsLength: number;
+  addRow: (stats: number[], row: number, sign: 1 | -1) => void;
+  scoreStats: (parent: number[], left: number[], right: number[]) => { gain: number; score: number };
+  numericFeatures: string[];
+  categoricalFeatures: string[];
+  random: () => number;
+  reportNode: (depth: number) => void;
+}
+
+// Rows reaching a node, plus the same rows ordered by each numeric feature
+interface NodeRows {
+  rows: number[];
+  sorted: { [feature: string]: number[] };
+}
+
+interface SplitCandidate {
+  feature: string;
+  threshold: number | string;
+  isNumeric: boolean;
+  gain: number;
+  score: number;
+}
+
+export const formatThreshold = (value: number): string =>
+  Number.isInteger(value) ? String(value) : String(Number(value.toFixed(3)));
+
+// Condition text for the true (left) branch of a split
+export const formatCondition = (threshold: number | string): string =>
+  typeof threshold === 'number' ? `≤ ${formatThreshold(threshold)}` : `= "${threshold}"`;
+
+export const buildDecisionTree = (
+  data: DataPoint[],
+  target: string,
+  options: Partial<TreeOptions> = {},
+  onProgress?: (progress: TreeBuildProgress) => void
+): TreeNode | null => {
+  if (data.length === 0) return null;
+
+  const settings = { ...DEFAULT_TREE_OPTIONS, ...options };
+  let nodesExpanded = 0;
+  const reportNode = (depth: number) => {
+    nodesExpanded++;
+    onProgress?.({ nodesExpanded, depth });
   };
+  const context = createTrainingContext(data, target, settings, reportNode);
 
-  const findBestSplit = (subset: DataPoint[]) => {
-    let bestGain = -Infinity;
-    let bestFeature = '';
-    let bestThreshold = 0;
-    let bestIsNumeric = true;
+  // Each numeric feature is sorted once here; children inherit the order
+  // by stable partitioning instead of re-sorting
+  const rows = data.map((_, i) => i);
+  const tree = growTree(context, { rows, sorted: sortRows(context, rows) }, 0);
+  // Record the criterion and task on the root so exports and the UI can report them
+  return { ...tree, criterion: settings.criterion, task: settings.task };
+};
 
-    const features = Object.keys(subset[0])
-      .filter(f => f !== target && f !== 'id' && f !== 'loan_id');
-    
-    for (const feature of features) {
-      const values = subset.map(row => row[feature]);
-      const isNumeric = values.every(v => typeof v === 'number');
-
-      if (isNumeric) {
-        const numericValues = values as number[];
-        const min = Math.min(...numericValues);
-        const max = Math.max(...numericValues);
-        const steps = Math.min(20, (max - min)); // Adaptive step size
-        const step = (max - min) / steps;
-
-        for (let threshold = min + step; threshold < max; threshold += step) {
-          const left = subset.filter(row => Number(row[feature]) <= threshold);
-          const right = subset.filter(row => Number(row[feature]) > threshold);
-          
-          if (left.length < 5 || right.length < 5) continue;
-
-          const entropyBefore = getEntropy(subset);
-          const entropyAfter = (left.length / subset.length) * getEntropy(left) +
-                             (right.length / subset.length) * getEntropy(right);
-          const gain = entropyBefore - entropyAfter;
-
-          if (gain > bestGain) {
-            bestGain = gain;
-            bestFeature = feature;
-            bestThreshold = threshold;
-            bestIsNumeric = true;
-          }
-        }
-      } else {
-        const categories = new Set(values.map(String));
-        
-        for (const category of categories) {
-          const left = subset.filter(row => String(row[feature]) === category);
-          const right = subset.filter(row => String(row[feature]) !== category);
-
-          if (left.length < 5 || right.length < 5) continue;
-
-          const entropyBefore = getEntropy(subset);
-          const entropyAfter = (left.length / subset.length) * getEntropy(left) +
-                             (right.length / subset.length) * getEntropy(right);
-          const gain = entropyBefore - entropyAfter;
-
-          if (gain > bestGain) {
-            bestGain = gain;
-            bestFeature = feature;
-            bestThreshold = category;
-            bestIsNumeric = false;
-          }
-        }
+const createTrainingContext = (
+  data: DataPoint[],
+  target: string,
+  settings: TreeOptions,
+  reportNode: (depth: number) => void
+): TrainingContext => {
+  const regression = settings.task === 'regression';
+  const classIndex = new Map<string, number>();
+  const labels = new Int32Array(data.length);
+  const targets = new Float64Array(regression ? data.length : 0);
+  data.forEach((row, i) => {
+    if (regression) {
+      const value = row[target];
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`Regression needs a numeric target, but "${target}" has the value "${value}"`);
       }
+      targets[i] = value;
+      return;
     }
+    const label = String(row[target]);
+    if (!classIndex.has(label)) classIndex.set(label, classIndex.size);
+    labels[i] = classIndex.get(label)!;
+  });
 
-    return { 
-      feature: bestFeature, 
-      threshold: bestThreshold, 
-      gain: bestGain, 
-      isNumeric: bestIsNumeric 
-    };
-  };
+  const features = Object.keys(data[0])
+    .filter(f => f !== target && f !== 'id' && f !== 'loan_id');
+  const numericFeatures = features.filter(f => data.every(row => typeof row[f] === 'number'));
+  const categoricalFeatures = features.filter(f => !numericFeatures.includes(f));
 
-  const getMajorityClass = (subset: DataPoint[]) => {
-    const counts: { [key: string]: number } = {};
-    subset.forEach(row => {
-      const value = String(row[target]);
-      counts[value] = (counts[value] || 0) + 1;
-    });
-    return Object.entries(counts).reduce((a, b) => a[1] > b[1] ? a : b)[0];
+  return {
+    data,
+    options: settings,
+    classes: Array.from(classIndex.keys()),
+    labels,
+    targets,
+    statsLength: regression ? 3 : classIndex.size,
+    addRow: regression
+      ? (stats, i, sign) => {
+          stats[0] += sign;
+          stats[1] += sign * targets[i];
+          stats[2] += sign * targets[i] * targets[i];
+        }
+      : (stats, i, sign) => {
+          stats[labels[i]] += sign;
+        },
+    scoreStats: regression
+      ? scoreRegressionSplit
+      : (parent, left, right) => scoreSplit(parent, left, right, settings.criterion),
+    numericFeatures,
+    categoricalFeatures,
+    random: createRandom(settings.seed),
+    reportNode
   };
+};
 
-  const split = findBestSplit(data);
-  const distribution = getDistribution(data);
-  
-  if (split.gain <= 0.01) {
-    const majorityClass = getMajorityClass(data);
-    const confidence = data.filter(row => String(row[target]) === majorityClass).length / data.length;
-    
-    return {
-      name: majorityClass,
-      value: 1,
-      confidence,
-      samples: data.length,
-      distribution,
-      prediction: true
-    };
+const sortRows = ({ data, numericFeatures }: TrainingContext, rows: number[]): NodeRows['sorted'] => {
+  const sorted: NodeRows['sorted'] = {};
+  numericFeatures.forEach(feature => {
+    sorted[feature] = [...rows].sort((a, b) => (data[a][feature] as number) - (data[b][feature] as number));
+  });
+  return sorted;
+};
+
+const nodeStats = (context: TrainingContext, rows: number[]): number[] => {
+  const stats = new Array(context.statsLength).fill(0);
+  rows.forEach(i => context.addRow(stats, i, 1));
+  return stats;
+};
+
+/**
+ * Sweeps the feature's presorted rows once, moving each row from the right
+ * branch to the left and scoring every boundary between distinct values.
+ * The threshold is the midpoint between the two neighbouring values.
+ */
+const findNumericSplit = (
+  context: TrainingContext,
+  feature: string,
+  order: number[],
+  parentStats: number[]
+): SplitCandidate[] => {
+  const { data, options } = context;
+  const n = order.length;
+  const value = (position: number) => data[order[position]][feature] as number;
+
+  // Positions after which the value changes, respecting the leaf size
+  let boundaries: number[] = [];
+  for (let i = options.minSamplesLeaf - 1; i < n - options.minSamplesLeaf; i++) {
+    if (value(i) < value(i + 1)) boundaries.push(i);
+  }
+
+  // Optional cap: score an evenly spaced subset of the boundaries
+  if (options.maxThresholds > 0 && boundaries.length > options.maxThresholds) {
+    const step = boundaries.length / options.maxThresholds;
+    boundaries = Array.from({ length: options.maxThresholds }, (_, k) => boundaries[Math.floor(k * step)]);
   }
 
-  let left: DataPoint[];
-  let right: DataPoint[];
-  let condition: string;
-  const formattedFeature = formatFeatureName(split.feature);
+  const candidates: SplitCandidate[] = [];
+  const leftStats = new Array(parentStats.length).fill(0);
+  const rightStats = [...parentStats];
+  let position = 0;
 
-  if (split.isNumeric) {
-    const threshold = Number(split.threshold).toFixed(1);
-    left = data.filter(row => Number(row[split.feature]) <= split.threshold);
-    right = data.filter(row => Number(row[split.feature]) > split.threshold);
-    condition = `≤ ${threshold}`;
-  } else {
-    left = data.filter(row => String(row[split.feature]) === split.threshold);
-    right = data.filter(row => String(row[split.feature]) !== split.threshold);
-    condition = `= "${split.threshold}"`;
+  for (const boundary of boundaries) {
+    for (; position <= boundary; position++) {
+      context.addRow(leftStats, order[position], 1);
+      context.addRow(rightStats, order[position], -1);
+    }
+
+    const { gain, score } = context.scoreStats(parentStats, leftStats, rightStats);
+    const threshold = (value(boundary) + value(boundary + 1)) / 2;
+    candidates.push({ feature, threshold, isNumeric: true, gain, score });
   }
 
-  const leftChild = buildDecisionTree(left, target, maxDepth - 1);
-  const rightChild = buildDecisionTree(right, target, maxDepth - 1);
+  return candidates;
+};
 
-  if (!leftChild || !rightChild) {
-    const majorityClass = getMajorityClass(data);
-    const confidence = data.filter(row => String(row[target]) === majorityClass).length / data.length;
-    
-    return {
-      name: majorityClass,
+// One-vs-rest splits from a single pass of per-category target statistics
+const findCategoricalSplit = (
+  context: TrainingContext,
+  feature: string,
+  rows: number[],
+  parentStats: number[]
+): SplitCandidate[] => {
+  const { data, options } = context;
+  const categoryStats = new Map<string, { size: number; stats: number[] }>();
+
+  rows.forEach(i => {
+    const category = String(data[i][feature]);
+    if (!categoryStats.has(category)) {
+      categoryStats.set(category, { size: 0, stats: new Array(parentStats.length).fill(0) });
+    }
+    const entry = categoryStats.get(category)!;
+    entry.size++;
+    context.addRow(entry.stats, i, 1);
+  });
+
+  const candidates: SplitCandidate[] = [];
+  categoryStats.forEach(({ size: leftSize, stats: leftStats }, category) => {
+    if (leftSize < options.minSamplesLeaf || rows.length - leftSize < options.minSamplesLeaf) return;
+
+    const rightStats = parentStats.map((value, k) => value - leftStats[k]);
+    const { gain, score } = context.scoreStats(parentStats, leftStats, rightStats);
+    candidates.push({ feature, threshold: category, isNumeric: false, gain, score });
+  });
+
+  return candidates;
+};
+
+const findBestSplit = (context: TrainingContext, node: NodeRows, parentStats: number[]): SplitCandidate | null => {
+  const { numericFeatures, categoricalFeatures, options } = context;
+
+  // Random forests only look at a random subset of features at each split
+  const allFeatures = [...numericFeatures, ...categoricalFeatures];
+  const drawn = options.maxFeatures > 0 && options.maxFeatures < allFeatures.length
+    ? new Set(shuffle(allFeatures, context.random).slice(0, options.maxFeatures))
+    : null;
+  const considered = (feature: string) => !drawn || drawn.has(feature);
+
+  const candidates = [
+    ...numericFeatures.filter(considered).flatMap(feature =>
+      findNumericSplit(context, feature, node.sorted[feature], parentStats)
+    ),
+    ...categoricalFeatures.filter(considered).flatMap(feature =>
+      findCategoricalSplit(context, feature, node.rows, parentStats)
+    )
+  ];
+
+  // C4.5 only trusts the gain ratio of splits whose information gain is at
+  // least average; otherwise tiny one-category splits win on a near-zero denominator
+  const averageGain = candidates.reduce((sum, c) => sum + c.gain, 0) / (candidates.length || 1);
+  const eligible = options.task === 'classification' && options.criterion === 'gainRatio'
+    ? candidates.filter(c => c.gain >= averageGain)
+    : candidates;
+
+  return eligible.reduce<SplitCandidate | null>(
+    (a, b) => (a === null || b.score > a.score ? b : a),
+    null
+  );
+};
+
+// Leaf for `rows`, plus the distribution or mean a split over the same rows carries
+const summarizeRows = (context: TrainingContext, rows: number[]) => {
+  const { options, classes } = context;
+  const stats = nodeStats(context, rows);
+  let summary: Pick<TreeNode, 'distribution' | 'mean' | 'std'>;
+  let makeLeaf: () => TreeNode;
+
+  if (options.task === 'regression') {
+    const mean = stats[1] / rows.length;
+    const std = Math.sqrt(Math.max(0, stats[2] / rows.length - mean * mean));
+    summary = { mean, std };
+    makeLeaf = () => ({
+      name: formatEstimate(mean),
       value: 1,
-      confidence,
-      samples: data.length,
-      distribution,
+      samples: rows.length,
+      ...summary,
       prediction: true
+    });
+  } else {
+    const distribution: { [key: string]: number } = {};
+    stats.forEach((count, c) => {
+      if (count > 0) distribution[classes[c]] = count;
+    });
+    summary = { distribution };
+    makeLeaf = () => {
+      // Ties go to the later class, as they always have
+      const majority = stats.reduce((best, count, c) => (count >= stats[best] ? c : best), 0);
+
+      return {
+        name: classes[majority],
+        value: 1,
+        confidence: stats[majority] / rows.length,
+        samples: rows.length,
+        distribution,
+        prediction: true
+      };
     };
   }
 
+  return { stats, summary, makeLeaf };
+};
+
+const goesLeftOf = (context: TrainingContext, split: Pick<SplitCandidate, 'feature' | 'threshold' | 'isNumeric'>) =>
+  split.isNumeric
+    ? (i: number) => Number(context.data[i][split.feature]) <= Number(split.threshold)
+    : (i: number) => String(context.data[i][split.feature]) === split.threshold;
+
+// `feature` keeps the raw column key so predictions can look up input values;
+// `name` carries the display label
+const splitNode = (
+  split: SplitCandidate,
+  rows: number[],
+  summary: Pick<TreeNode, 'distribution' | 'mean' | 'std'>,
+  children: TreeNode[]
+): TreeNode => ({
+  name: formatFeatureName(split.feature),
+  condition: formatCondition(split.threshold),
+  confidence: split.score,
+  feature: split.feature,
+  threshold: split.threshold,
+  samples: rows.length,
+  ...summary,
+  children
+});
+
+const growTree = (context: TrainingContext, node: NodeRows, depth: number): TreeNode => {
+  const { options } = context;
+  const { rows } = node;
+  context.reportNode(depth);
+
+  const { stats, summary, makeLeaf } = summarizeRows(context, rows);
+
+  if (depth >= options.maxDepth || rows.length < options.minSamplesSplit) {
+    return makeLeaf();
+  }
+
+  const split = findBestSplit(context, node, stats);
+  
+  if (!split || split.score <= options.minGain) {
+    return makeLeaf();
+  }
+
+  const goesLeft = goesLeftOf(context, split);
+  const partition = (indices: number[]) => {
+    const left: number[] = [];
+    const right: number[] = [];
+    indices.forEach(i => (goesLeft(i) ? left : right).push(i));
+    return [left, right];
+  };
+
+  const [leftRows, rightRows] = partition(rows);
+  const leftSorted: NodeRows['sorted'] = {};
+  const rightSorted: NodeRows['sorted'] = {};
+  context.numericFeatures.forEach(feature => {
+    [leftSorted[feature], rightSorted[feature]] = partition(node.sorted[feature]);
+  });
+
+  const leftChild = growTree(context, { rows: leftRows, sorted: leftSorted }, depth + 1);
+  const rightChild = growTree(context, { rows: rightRows, sorted: rightSorted }, depth + 1);
+
+  return splitNode(split, rows, summary, [leftChild, rightChild]);
+};
+
+export interface SplitSuggestion {
+  feature: string;
+  // Display label of the feature
+  name: string;
+  threshold: number | string;
+  isNumeric: boolean;
+  gain: number;
+  score: number;
+}
+
+/**
+ * Grows a tree one node at a time with the same statistics as
+ * buildDecisionTree, for trees built by hand. Rows are indices into `data`.
+ */
+export const createNodeBuilder = (data: DataPoint[], target: string, options: Partial<TreeOptions> = {}) => {
+  const settings = { ...DEFAULT_TREE_OPTIONS, ...options };
+  const context = createTrainingContext(data, target, settings, () => {});
+  const { numericFeatures, categoricalFeatures } = context;
+
   return {
-    name: formattedFeature,
-    condition,
-    confidence: split.gain,
-    feature: formattedFeature,
-    threshold: split.threshold,
-    samples: data.length,
-    distribution,
-    children: [leftChild, rightChild]
+    features: [...numericFeatures, ...categoricalFeatures],
+    isNumeric: (feature: string) => numericFeatures.includes(feature),
+    featureName: formatFeatureName,
+    leaf: (rows: number[]): TreeNode => summarizeRows(context, rows).makeLeaf(),
+    // The best split of each feature over `rows`, highest score first
+    suggestSplits: (rows: number[]): SplitSuggestion[] => {
+      const stats = nodeStats(context, rows);
+      const sorted = sortRows(context, rows);
+      const best = (candidates: SplitCandidate[]) =>
+        candidates.reduce<SplitCandidate | null>((a, b) => (a === null || b.score > a.score ? b : a), null);
+
+      return [
+        ...numericFeatures.map(feature => best(findNumericSplit(context, feature, sorted[feature], stats))),
+        ...categoricalFeatures.map(feature => best(findCategoricalSplit(context, feature, rows, stats)))
+      ]
+        .filter((candidate): candidate is SplitCandidate => candidate !== null)
+        .map(candidate => ({ ...candidate, name: formatFeatureName(candidate.feature) }))
+        .sort((a, b) => b.score - a.score);
+    },
+    // A split of `rows` with two leaf children, or null when one side would be empty
+    split: (rows: number[], feature: string, threshold: number | string): TreeNode | null => {
+      const isNumeric = numericFeatures.includes(feature);
+      const goesLeft = goesLeftOf(context, { feature, threshold, isNumeric });
+      const left = rows.filter(goesLeft);
+      const right = rows.filter(i => !goesLeft(i));
+      if (left.length === 0 || right.length === 0) return null;
+
+      const { stats, summary } = summarizeRows(context, rows);
+      const { gain, score } = context.scoreStats(stats, nodeStats(context, left), nodeStats(context, right));
+      return splitNode(
+        { feature, threshold, isNumeric, gain, score },
+        rows,
+        summary,
+        [summarizeRows(context, left).makeLeaf(), summarizeRows(context, right).makeLeaf()]
+      );
+    }
   };
-};
\ No newline at end of file
+};
+
+export type NodeBuilder = ReturnType<typeof createNodeBuilder>;
@@ -0,0 +1,184 @@
+import * as d3 from 'd3';
+import { DataPoint, isBlank } from './dataLoader';
+
+export type AssociationMeasure = 'pearson' | 'eta' | 'cramersV';
+
+export const ASSOCIATION_LABELS: { [measure in AssociationMeasure]: string } = {
+  pearson: 'Pearson correlation',
+  eta: 'Correlation ratio (η)',
+  cramersV: "Cramér's V"
+};
+
+export interface ColumnProfile {
+  column: string;
+  type: 'numeric' | 'categorical';
+  // Null, empty or whitespace-only cells
+  missing: number;
+  distinct: number;
+  min?: number;
+  max?: number;
+  mean?: number;
+  std?: number;
+  q1?: number;
+  median?: number;
+  q3?: number;
+  // Most frequent values, for categorical columns
+  topValues: { value: string; count: number }[];
+  // Association with the target; Pearson is signed, the others run from 0 to 1
+  association?: { measure: AssociationMeasure; value: number };
+  // Things that look broken, e.g. padded headers or a column that never varies
+  issues: string[];
+}
+
+export interface DatasetProfile {
+  rows: number;
+  columns: ColumnProfile[];
+}
+
+// Cramér's V between two categorical columns, from 0 (independent) to 1
+export const cramersV = (a: string[], b: string[]): number => {
+  const n = a.length;
+  const table = new Map<string, Map<string, number>>();
+  const rowTotals = new Map<string, number>();
+  const columnTotals = new Map<string, number>();
+
+  a.forEach((x, i) => {
+    const y = b[i];
+    const row = table.get(x) || new Map<string, number>();
+    row.set(y, (row.get(y) || 0) + 1);
+    table.set(x, row);
+    rowTotals.set(x, (rowTotals.get(x) || 0) + 1);
+    columnTotals.set(y, (columnTotals.get(y) || 0) + 1);
+  });
+
+  const k = Math.min(rowTotals.size, columnTotals.size) - 1;
+  if (n === 0 || k < 1) return 0;
+
+  let chiSquared = 0;
+  rowTotals.forEach((rowTotal, x) => {
+    columnTotals.forEach((columnTotal, y) => {
+      const expected = (rowTotal * columnTotal) / n;
+      const observed = table.get(x)?.get(y) || 0;
+      chiSquared += (observed - expected) ** 2 / expected;
+    });
+  });
+  return Math.sqrt(chiSquared / (n * k));
+};
+
+const pearson = (x: number[], y: number[]): number => {
+  const meanX = d3.mean(x) || 0;
+  const meanY = d3.mean(y) || 0;
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  x.forEach((value, i) => {
+    covariance += (value - meanX) * (y[i] - meanY);
+    varianceX += (value - meanX) ** 2;
+    varianceY += (y[i] - meanY) ** 2;
+  });
+  return varianceX > 0 && varianceY > 0 ? covariance / Math.sqrt(varianceX * varianceY) : 0;
+};
+
+// Share of a numeric column's variance explained by a categorical grouping, as a 0–1 correlation
+const correlationRatio = (groups: string[], values: number[]): number => {
+  const overall = d3.mean(values) || 0;
+  const byGroup = d3.rollup(values.map((value, i) => [groups[i], value] as const), v => v.map(d => d[1]), d => d[0]);
+  let between = 0;
+  byGroup.forEach(groupValues => {
+    between += groupValues.length * ((d3.mean(groupValues) || 0) - overall) ** 2;
+  });
+  const total = d3.sum(values, value => (value - overall) ** 2);
+  return total > 0 ? Math.sqrt(between / total) : 0;
+};
+
+const associate = (
+  data: DataPoint[],
+  column: string,
+  columnNumeric: boolean,
+  target: string,
+  targetNumeric: boolean
+): ColumnProfile['association'] => {
+  const rows = data.filter(row => !isBlank(row[column]) && !isBlank(row[target]));
+  if (rows.length < 2) return undefined;
+
+  if (columnNumeric && targetNumeric) {
+    return { measure: 'pearson', value: pearson(rows.map(row => Number(row[column])), rows.map(row => Number(row[target]))) };
+  }
+  if (columnNumeric || targetNumeric) {
+    const [numeric, grouping] = columnNumeric ? [column, target] : [target, column];
+    return {
+      measure: 'eta',
+      value: correlationRatio(rows.map(row => String(row[grouping])), rows.map(row => Number(row[numeric])))
+    };
+  }
+  return { measure: 'cramersV', value: cramersV(rows.map(row => String(row[column])), rows.map(row => String(row[target]))) };
+};
+
+const TOP_VALUES = 15;
+
+/**
+ * Per-column statistics for the loaded rows. A column is numeric when every
+ * non-blank value parsed as a number. Targets with only a few distinct
+ * numeric values (class labels like 0/1) are treated as categorical when
+ * measuring association with them.
+ */
+export const profileDataset = (data: DataPoint[], target: string, targetCategorical: boolean): DatasetProfile => {
+  const columns = Object.keys(data[0] || {});
+  const numericColumns = new Set(columns.filter(column => {
+    const values = data.map(row => row[column]).filter(value => !isBlank(value));
+    return values.length > 0 && values.every(value => typeof value === 'number');
+  }));
+
+  return {
+    rows: data.length,
+    columns: columns.map((column): ColumnProfile => {
+      const present = data.map(row => row[column]).filter(value => !isBlank(value));
+      const numeric = numericColumns.has(column);
+      const counts = d3.rollup(present, v => v.length, value => String(value));
+      const issues: string[] = [];
+
+      if (column !== column.trim()) issues.push('Header has leading or trailing spaces');
+      if (counts.size <= 1) issues.push(present.length === 0 ? 'Every value is blank' : 'Only one distinct value');
+      if (!numeric) {
+        const padded = present.filter(value => typeof value === 'string' && value !== value.trim()).length;
+        if (padded > 0) issues.push(`${padded} values have leading or trailing spaces`);
+        const numberLike = present.filter(value => typeof value === 'number').length;
+        if (numberLike > 0 && numberLike >= present.length * 0.9) {
+          issues.push(`${present.length - numberLike} non-numeric values in a mostly numeric column`);
+        }
+      }
+      if (counts.size === data.length && data.length > 20 && (!numeric || present.every(value => Number.isInteger(value)))) {
+        issues.push('Every value is distinct; looks like an identifier');
+      }
+
+      const profile: ColumnProfile = {
+        column,
+        type: numeric ? 'numeric' : 'categorical',
+        missing: data.length - present.length,
+        distinct: counts.size,
+        topValues: Array.from(counts, ([value, count]) => ({ value, count }))
+          .sort((a, b) => b.count - a.count)
+          .slice(0, TOP_VALUES),
+        issues
+      };
+
+      if (numeric && present.length > 0) {
+        const values = (present as number[]).slice().sort(d3.ascending);
+        Object.assign(profile, {
+          min: values[0],
+          max: values[values.length - 1],
+          mean: d3.mean(values),
+          std: d3.deviation(values) || 0,
+          q1: d3.quantileSorted(values, 0.25),
+          median: d3.quantileSorted(values, 0.5),
+          q3: d3.quantileSorted(values, 0.75)
+        });
+      }
+
+      if (column !== target && data.length > 0) {
+        profile.association = associate(data, column, numeric, target, numericColumns.has(target) && !targetCategorical);
+      }
+      return profile;
+    })
+  };
+};
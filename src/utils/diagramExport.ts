@@ -0,0 +1,85 @@
+import { TreeNode, formatEstimate } from './dataLoader';
+
+interface DiagramNode {
+  id: string;
+  lines: string[];
+  leaf: boolean;
+}
+
+interface DiagramEdge {
+  from: string;
+  to: string;
+  label: 'true' | 'false';
+}
+
+const describeNode = (node: TreeNode): string[] => {
+  const split = !!node.children && node.condition !== undefined;
+  const lines = [split ? `${node.name} ${node.condition}` : node.name];
+
+  if (node.samples !== undefined) lines.push(`samples = ${node.samples}`);
+  if (node.mean !== undefined) {
+    lines.push(`mean = ${formatEstimate(node.mean)}, std = ${formatEstimate(node.std || 0)}`);
+  } else if (node.distribution) {
+    lines.push(Object.entries(node.distribution).map(([label, count]) => `${label}: ${count}`).join(', '));
+  }
+  return lines;
+};
+
+// children[0] is where predictFromTree sends rows that satisfy the condition
+const flattenTree = (tree: TreeNode) => {
+  const nodes: DiagramNode[] = [];
+  const edges: DiagramEdge[] = [];
+
+  const visit = (node: TreeNode) => {
+    const id = `n${nodes.length}`;
+    nodes.push({ id, lines: describeNode(node), leaf: !node.children });
+    node.children?.forEach((child, i) => {
+      // The child takes the next free id, so edges come out in preorder
+      edges.push({ from: id, to: `n${nodes.length}`, label: i === 0 ? 'true' : 'false' });
+      visit(child);
+    });
+  };
+
+  visit(tree);
+  return { nodes, edges };
+};
+
+const dotString = (text: string) =>
+  `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+
+export const exportDot = (tree: TreeNode, title: string): string => {
+  const { nodes, edges } = flattenTree(tree);
+  return [
+    `digraph ${dotString(title)} {`,
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica", fillcolor="#eef2ff"];',
+    '  edge [fontname="Helvetica"];',
+    ...nodes.map(node =>
+      `  ${node.id} [label=${dotString(node.lines.join('\n'))}${node.leaf ? ', fillcolor="#c7d2fe"' : ''}];`
+    ),
+    ...edges.map(edge => `  ${edge.from} -> ${edge.to} [label=${edge.label}];`),
+    '}',
+    ''
+  ].join('\n');
+};
+
+// Mermaid labels are HTML; entity codes keep quotes and markup characters literal
+const mermaidText = (text: string) =>
+  text
+    .replace(/#/g, '#35;')
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;');
+
+export const exportMermaid = (tree: TreeNode): string => {
+  const { nodes, edges } = flattenTree(tree);
+  return [
+    'flowchart TD',
+    ...nodes.map(node => {
+      const label = node.lines.map(mermaidText).join('<br/>');
+      // Leaves get rounded boxes so predictions stand out from splits
+      return node.leaf ? `  ${node.id}("${label}")` : `  ${node.id}["${label}"]`;
+    }),
+    ...edges.map(edge => `  ${edge.from} -->|${edge.label}| ${edge.to}`),
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,213 @@
+import { DataPoint, TreeNode, findLeaf } from './dataLoader';
+import { createRandom, shuffle } from './random';
+
+export interface ClassMetrics {
+  label: string;
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export interface CurvePoint {
+  x: number;
+  y: number;
+  threshold: number;
+}
+
+export interface EvaluationResult {
+  accuracy: number;
+  classes: string[];
+  // confusionMatrix[actual][predicted], indexed like `classes`
+  confusionMatrix: number[][];
+  classMetrics: ClassMetrics[];
+  testSize: number;
+}
+
+export interface CurveResult {
+  roc: CurvePoint[];
+  pr: CurvePoint[];
+  auc: number;
+  averagePrecision: number;
+}
+
+export interface RegressionResult {
+  rmse: number;
+  mae: number;
+  // Coefficient of determination against predicting the test mean
+  r2: number;
+  testSize: number;
+  points: { actual: number; predicted: number }[];
+}
+
+/**
+ * Splits rows into train and test sets, keeping the class proportions of the
+ * target column roughly equal in both.
+ */
+export const stratifiedSplit = (
+  data: DataPoint[],
+  target: string,
+  testFraction: number,
+  seed = 42
+): { train: DataPoint[]; test: DataPoint[] } => {
+  if (testFraction <= 0) return { train: data, test: [] };
+
+  const random = createRandom(seed);
+  const byClass = new Map<string, DataPoint[]>();
+  data.forEach(row => {
+    const label = String(row[target]);
+    if (!byClass.has(label)) byClass.set(label, []);
+    byClass.get(label)!.push(row);
+  });
+
+  const train: DataPoint[] = [];
+  const test: DataPoint[] = [];
+
+  byClass.forEach(rows => {
+    const shuffled = shuffle(rows, random);
+    // Classes with a single row stay in the training set
+    const testCount = rows.length > 1 ? Math.round(rows.length * testFraction) : 0;
+    test.push(...shuffled.slice(0, testCount));
+    train.push(...shuffled.slice(testCount));
+  });
+
+  return { train: shuffle(train, random), test: shuffle(test, random) };
+};
+
+// Numeric targets have too many distinct values to stratify on
+export const randomSplit = (
+  data: DataPoint[],
+  testFraction: number,
+  seed = 42
+): { train: DataPoint[]; test: DataPoint[] } => {
+  if (testFraction <= 0) return { train: data, test: [] };
+
+  const shuffled = shuffle(data, createRandom(seed));
+  const testCount = Math.round(data.length * testFraction);
+  return { train: shuffled.slice(testCount), test: shuffled.slice(0, testCount) };
+};
+
+// Class probabilities from the training-sample distribution of the reached leaf
+export const predictProbabilities = (
+  tree: TreeNode,
+  input: { [key: string]: string | number }
+): { [label: string]: number } => {
+  const leaf = findLeaf(tree, input);
+  const distribution = leaf.distribution || { [leaf.name]: 1 };
+  const total = Object.values(distribution).reduce((sum, count) => sum + count, 0) || 1;
+
+  return Object.fromEntries(
+    Object.entries(distribution).map(([label, count]) => [label, count / total])
+  );
+};
+
+export const evaluateTree = (tree: TreeNode, test: DataPoint[], target: string): EvaluationResult => {
+  const actual = test.map(row => String(row[target]));
+  const predicted = test.map(row => findLeaf(tree, row).name);
+
+  const classes = Array.from(new Set([...actual, ...predicted])).sort();
+  const index = new Map(classes.map((label, i) => [label, i]));
+  const confusionMatrix = classes.map(() => classes.map(() => 0));
+
+  actual.forEach((label, i) => {
+    confusionMatrix[index.get(label)!][index.get(predicted[i])!]++;
+  });
+
+  const correct = classes.reduce((sum, _, i) => sum + confusionMatrix[i][i], 0);
+
+  const classMetrics = classes.map((label, i) => {
+    const truePositives = confusionMatrix[i][i];
+    const predictedPositives = confusionMatrix.reduce((sum, row) => sum + row[i], 0);
+    const support = confusionMatrix[i].reduce((sum, count) => sum + count, 0);
+    const precision = predictedPositives > 0 ? truePositives / predictedPositives : 0;
+    const recall = support > 0 ? truePositives / support : 0;
+    const f1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+    return { label, precision, recall, f1, support };
+  });
+
+  return {
+    accuracy: test.length > 0 ? correct / test.length : 0,
+    classes,
+    confusionMatrix,
+    classMetrics,
+    testSize: test.length
+  };
+};
+
+/**
+ * One-vs-rest ROC and precision/recall curves for `positiveClass`, scored by
+ * the leaf probability of that class. Leaves give few distinct scores, so the
+ * curves are step-like with one point per distinct probability.
+ */
+export const computeCurves = (
+  tree: TreeNode,
+  test: DataPoint[],
+  target: string,
+  positiveClass: string
+): CurveResult => {
+  const scored = test.map(row => ({
+    score: predictProbabilities(tree, row)[positiveClass] || 0,
+    positive: String(row[target]) === positiveClass
+  }));
+
+  const totalPositives = scored.filter(s => s.positive).length;
+  const totalNegatives = scored.length - totalPositives;
+
+  const thresholds = Array.from(new Set(scored.map(s => s.score))).sort((a, b) => b - a);
+
+  const roc: CurvePoint[] = [{ x: 0, y: 0, threshold: Infinity }];
+  const pr: CurvePoint[] = [{ x: 0, y: 1, threshold: Infinity }];
+
+  thresholds.forEach(threshold => {
+    let truePositives = 0;
+    let falsePositives = 0;
+    scored.forEach(s => {
+      if (s.score >= threshold) {
+        if (s.positive) truePositives++;
+        else falsePositives++;
+      }
+    });
+
+    const recall = totalPositives > 0 ? truePositives / totalPositives : 0;
+    const falsePositiveRate = totalNegatives > 0 ? falsePositives / totalNegatives : 0;
+    const precision = truePositives + falsePositives > 0 ? truePositives / (truePositives + falsePositives) : 1;
+
+    roc.push({ x: falsePositiveRate, y: recall, threshold });
+    pr.push({ x: recall, y: precision, threshold });
+  });
+
+  let auc = 0;
+  for (let i = 1; i < roc.length; i++) {
+    auc += (roc[i].x - roc[i - 1].x) * (roc[i].y + roc[i - 1].y) / 2;
+  }
+
+  // Step-wise average precision: sum of precision weighted by recall increments
+  let averagePrecision = 0;
+  for (let i = 1; i < pr.length; i++) {
+    averagePrecision += (pr[i].x - pr[i - 1].x) * pr[i].y;
+  }
+
+  return { roc, pr, auc, averagePrecision };
+};
+
+// Scores a regression tree by the mean of the leaf each test row reaches
+export const evaluateRegression = (tree: TreeNode, test: DataPoint[], target: string): RegressionResult => {
+  const points = test.map(row => ({
+    actual: Number(row[target]),
+    predicted: findLeaf(tree, row).mean ?? NaN
+  }));
+
+  const n = points.length || 1;
+  const squaredError = points.reduce((sum, p) => sum + (p.actual - p.predicted) ** 2, 0);
+  const absoluteError = points.reduce((sum, p) => sum + Math.abs(p.actual - p.predicted), 0);
+  const actualMean = points.reduce((sum, p) => sum + p.actual, 0) / n;
+  const totalVariation = points.reduce((sum, p) => sum + (p.actual - actualMean) ** 2, 0);
+
+  return {
+    rmse: Math.sqrt(squaredError / n),
+    mae: absoluteError / n,
+    r2: totalVariation > 0 ? 1 - squaredError / totalVariation : 0,
+    testSize: test.length,
+    points
+  };
+};
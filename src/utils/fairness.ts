@@ -0,0 +1,179 @@
+import { DataPoint, TreeNode, findLeaf, formatThreshold } from './dataLoader';
+import { cramersV } from './dataProfile';
+
+export interface GroupMetrics {
+  // Values of the sensitive columns, e.g. "Female · White"
+  group: string;
+  count: number;
+  // Share of the group's rows that actually have the positive class
+  baseRate: number;
+  // Share predicted positive
+  selectionRate: number;
+  // NaN when the group has no actual positives (TPR), negatives (FPR) or predicted positives (precision)
+  tpr: number;
+  fpr: number;
+  precision: number;
+}
+
+export interface FairnessGaps {
+  // Largest minus smallest selection rate
+  demographicParity: number;
+  // Smallest selection rate over the largest; below 0.8 fails the four-fifths rule
+  disparateImpact: number;
+  tprGap: number;
+  fprGap: number;
+  // The larger of the TPR and FPR gaps
+  equalizedOdds: number;
+}
+
+export interface SensitiveSplit {
+  // Root-to-node path, for highlighting
+  path: TreeNode[];
+  node: TreeNode;
+  condition: string;
+  // The sensitive column the split uses or stands in for
+  sensitive: string;
+  direct: boolean;
+  // Cramér's V between the split's outcome and the sensitive column; 1 for direct splits
+  association: number;
+}
+
+// Splits at least this associated with a sensitive column are flagged as proxies
+export const PROXY_THRESHOLD = 0.3;
+
+// Groups smaller than this get metrics too noisy to compare, so gaps ignore them
+export const MIN_GROUP_SIZE = 10;
+
+// Column names that suggest a protected attribute, most commonly audited first
+const SENSITIVE_NAMES = [/(sex|gender)/i, /(race|ethnic)/i, /(married|marital|religion|nationality|native)/i];
+
+const MAX_GROUP_VALUES = 12;
+
+const sensitivity = (column: string) => {
+  const rank = SENSITIVE_NAMES.findIndex(pattern => pattern.test(column));
+  return rank === -1 ? SENSITIVE_NAMES.length : rank;
+};
+
+// Columns with few enough distinct values to form groups, sensitive-sounding ones first
+export const groupableColumns = (data: DataPoint[], exclude: string[]): { column: string; suggested: boolean }[] =>
+  Object.keys(data[0] || {})
+    .filter(column => !exclude.includes(column))
+    .filter(column => {
+      const distinct = new Set(data.map(row => String(row[column])));
+      return distinct.size >= 2 && distinct.size <= MAX_GROUP_VALUES;
+    })
+    .sort((a, b) => sensitivity(a) - sensitivity(b))
+    .map(column => ({ column, suggested: sensitivity(column) < SENSITIVE_NAMES.length }));
+
+// Prefers a label that reads as the favourable outcome, otherwise the rarer class
+export const defaultPositiveClass = (data: DataPoint[], target: string): string => {
+  const counts = new Map<string, number>();
+  data.forEach(row => counts.set(String(row[target]), (counts.get(String(row[target])) || 0) + 1));
+  const labels = Array.from(counts.keys());
+  const favourable = labels.find(label => /^(1|y|yes|true|approved?|granted|>.*)$/i.test(label.trim()));
+  if (favourable) return favourable;
+  return labels.sort((a, b) => (counts.get(a) || 0) - (counts.get(b) || 0))[0] || '';
+};
+
+const groupKey = (row: DataPoint, columns: string[]) => columns.map(column => String(row[column])).join(' · ');
+
+export const groupMetrics = (
+  tree: TreeNode,
+  data: DataPoint[],
+  target: string,
+  positive: string,
+  sensitive: string[]
+): GroupMetrics[] => {
+  const tallies = new Map<string, { tp: number; fp: number; fn: number; tn: number }>();
+
+  data.forEach(row => {
+    const key = groupKey(row, sensitive);
+    const tally = tallies.get(key) || { tp: 0, fp: 0, fn: 0, tn: 0 };
+    const actual = String(row[target]) === positive;
+    const predicted = findLeaf(tree, row).name === positive;
+    if (actual && predicted) tally.tp++;
+    else if (predicted) tally.fp++;
+    else if (actual) tally.fn++;
+    else tally.tn++;
+    tallies.set(key, tally);
+  });
+
+  return Array.from(tallies.entries())
+    .map(([group, { tp, fp, fn, tn }]) => {
+      const count = tp + fp + fn + tn;
+      return {
+        group,
+        count,
+        baseRate: (tp + fn) / count,
+        selectionRate: (tp + fp) / count,
+        tpr: tp + fn > 0 ? tp / (tp + fn) : NaN,
+        fpr: fp + tn > 0 ? fp / (fp + tn) : NaN,
+        precision: tp + fp > 0 ? tp / (tp + fp) : NaN
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+};
+
+const range = (values: number[]) => {
+  const defined = values.filter(value => !Number.isNaN(value));
+  return defined.length > 1 ? Math.max(...defined) - Math.min(...defined) : 0;
+};
+
+export const fairnessGaps = (groups: GroupMetrics[]): FairnessGaps => {
+  const compared = groups.filter(group => group.count >= MIN_GROUP_SIZE);
+  const rates = compared.map(group => group.selectionRate);
+  const highest = Math.max(...rates);
+  const tprGap = range(compared.map(group => group.tpr));
+  const fprGap = range(compared.map(group => group.fpr));
+
+  return {
+    demographicParity: range(rates),
+    disparateImpact: rates.length > 1 && highest > 0 ? Math.min(...rates) / highest : 1,
+    tprGap,
+    fprGap,
+    equalizedOdds: Math.max(tprGap, fprGap)
+  };
+};
+
+/**
+ * Split nodes that use a sensitive column directly, or whose condition
+ * separates the rows of `data` along a sensitive column almost as well
+ * (Cramér's V of at least PROXY_THRESHOLD). Each split is tested on the
+ * whole dataset rather than only the rows that reach it, so small nodes
+ * don't produce spurious associations.
+ */
+export const sensitiveSplits = (tree: TreeNode, data: DataPoint[], sensitive: string[]): SensitiveSplit[] => {
+  const found: SensitiveSplit[] = [];
+  const groupsBy = new Map(sensitive.map(column => [column, data.map(row => String(row[column]))]));
+
+  const visit = (node: TreeNode, path: TreeNode[]) => {
+    const nodePath = [...path, node];
+    if (!node.children || node.feature === undefined || node.threshold === undefined) return;
+
+    const { feature, threshold } = node;
+    const condition = typeof threshold === 'number'
+      ? `${node.name} ≤ ${formatThreshold(threshold)}`
+      : `${node.name} = "${threshold}"`;
+
+    if (sensitive.includes(feature)) {
+      found.push({ path: nodePath, node, condition, sensitive: feature, direct: true, association: 1 });
+    } else {
+      const goesLeft = data.map(row =>
+        String(typeof threshold === 'number' ? Number(row[feature]) <= threshold : String(row[feature]) === threshold)
+      );
+      let best: { column: string; association: number } | null = null;
+      for (const column of sensitive) {
+        const association = cramersV(goesLeft, groupsBy.get(column)!);
+        if (association >= PROXY_THRESHOLD && (!best || association > best.association)) best = { column, association };
+      }
+      if (best) {
+        found.push({ path: nodePath, node, condition, sensitive: best.column, direct: false, association: best.association });
+      }
+    }
+
+    node.children.forEach(child => visit(child, nodePath));
+  };
+
+  visit(tree, []);
+  return found;
+};
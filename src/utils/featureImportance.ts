@@ -0,0 +1,121 @@
+import { DataPoint, TreeNode, TreeTask } from './dataLoader';
+import { impurity } from './splitCriteria';
+import { createRandom, shuffle } from './random';
+
+export type ImportanceMethod = 'impurity' | 'permutation';
+
+export const IMPORTANCE_METHODS: { value: ImportanceMethod; label: string }[] = [
+  { value: 'impurity', label: 'Impurity decrease' },
+  { value: 'permutation', label: 'Permutation' }
+];
+
+export interface FeatureImportance {
+  // Raw column key, so results from different methods can be joined
+  feature: string;
+  // Display label of the feature, as shown on the tree
+  label: string;
+  importance: number;
+  // Standard deviation across permutation repeats
+  std?: number;
+}
+
+const nodeImpurity = (node: TreeNode, tree: TreeNode): number => {
+  if (tree.task === 'regression') return (node.std || 0) ** 2;
+  return impurity(Object.values(node.distribution || {}), tree.criterion || 'gini');
+};
+
+/**
+ * Mean decrease in impurity: every split adds its parent's impurity minus the
+ * sample-weighted impurity of its children, scaled by the share of training
+ * rows reaching it. Totals are normalised to sum to 1. Regression trees use
+ * variance as the impurity.
+ */
+export const impurityImportance = (tree: TreeNode | null): FeatureImportance[] => {
+  if (!tree || !tree.samples) return [];
+
+  // Summed per column; two columns can share a display label
+  const totals: { [feature: string]: number } = {};
+  const labels: { [feature: string]: string } = {};
+  const visit = (node: TreeNode) => {
+    if (!node.children || !node.feature || !node.samples) return;
+
+    const childImpurity = node.children.reduce(
+      (sum, child) => sum + ((child.samples || 0) / node.samples!) * nodeImpurity(child, tree),
+      0
+    );
+    const decrease = (node.samples / tree.samples!) * (nodeImpurity(node, tree) - childImpurity);
+    totals[node.feature] = (totals[node.feature] || 0) + Math.max(decrease, 0);
+    labels[node.feature] = node.name;
+    node.children.forEach(visit);
+  };
+  visit(tree);
+
+  const sum = Object.values(totals).reduce((a, b) => a + b, 0);
+  return Object.entries(totals)
+    .map(([feature, total]) => ({ feature, label: labels[feature], importance: sum > 0 ? total / sum : 0 }))
+    .sort((a, b) => b.importance - a.importance);
+};
+
+// Accuracy for classification, R² for regression
+const score = (
+  predict: (row: DataPoint) => string | number,
+  data: DataPoint[],
+  target: string,
+  task: TreeTask
+): number => {
+  if (task === 'classification') {
+    return data.filter(row => String(predict(row)) === String(row[target])).length / data.length;
+  }
+
+  const actual = data.map(row => Number(row[target]));
+  const mean = actual.reduce((a, b) => a + b, 0) / actual.length;
+  const total = actual.reduce((sum, y) => sum + (y - mean) ** 2, 0);
+  const residual = data.reduce((sum, row, i) => sum + (actual[i] - Number(predict(row))) ** 2, 0);
+  return total > 0 ? 1 - residual / total : 0;
+};
+
+/**
+ * Drop in holdout score when one feature's column is shuffled, breaking its
+ * link to the target. Each feature is shuffled `repeats` times with a seeded
+ * generator; the mean drop is the importance and the spread its error bar.
+ */
+export const permutationImportance = (
+  predict: (row: DataPoint) => string | number,
+  data: DataPoint[],
+  target: string,
+  task: TreeTask,
+  features: { key: string; label: string }[],
+  repeats = 5,
+  seed = 42
+): FeatureImportance[] => {
+  if (data.length === 0) return [];
+
+  const baseline = score(predict, data, target, task);
+  const random = createRandom(seed);
+
+  return features
+    .map(({ key, label }) => {
+      const drops = Array.from({ length: repeats }, () => {
+        const shuffled = shuffle(data.map(row => row[key]), random);
+        const permuted = data.map((row, i) => ({ ...row, [key]: shuffled[i] }));
+        return baseline - score(predict, permuted, target, task);
+      });
+      const mean = drops.reduce((a, b) => a + b, 0) / repeats;
+      const variance = drops.reduce((sum, drop) => sum + (drop - mean) ** 2, 0) / repeats;
+      return { feature: key, label, importance: mean, std: Math.sqrt(variance) };
+    })
+    .sort((a, b) => b.importance - a.importance);
+};
+
+// Raw column key and display label of every feature the trees split on
+export const splitFeatures = (trees: TreeNode[]): { key: string; label: string }[] => {
+  const labels = new Map<string, string>();
+  const visit = (node: TreeNode) => {
+    if (node.children && node.feature) {
+      labels.set(node.feature, node.name);
+      node.children.forEach(visit);
+    }
+  };
+  trees.forEach(visit);
+  return Array.from(labels.entries()).map(([key, label]) => ({ key, label }));
+};
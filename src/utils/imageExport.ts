@@ -0,0 +1,124 @@
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const PADDING = 20;
+const SECTION_GAP = 30;
+// Browsers refuse to encode canvases much larger than this on a side
+const MAX_CANVAS_SIDE = 16384;
+
+export interface ImageExportOptions {
+  includePath: boolean;
+  includeImportance: boolean;
+}
+
+export interface ExportedSvg {
+  markup: string;
+  width: number;
+  height: number;
+}
+
+// Restores the styles each element had before the decision path was highlighted
+const removeHighlight = (root: Element) => {
+  root.querySelectorAll<SVGElement>('[data-base-stroke]').forEach(el => {
+    el.style.stroke = el.getAttribute('data-base-stroke') || '';
+    el.style.strokeWidth = el.getAttribute('data-base-stroke-width') || '';
+  });
+};
+
+/**
+ * Builds a standalone SVG of the whole tree. The zoom layer's bounding box is
+ * measured on the live element and its transform dropped, so the file holds
+ * every node whatever the current zoom and pan. D3 writes styles inline, so
+ * the copy renders the same outside the page.
+ */
+export const buildTreeSvg = (
+  treeSvg: SVGSVGElement,
+  importanceSvg: SVGSVGElement | null,
+  options: ImageExportOptions
+): ExportedSvg => {
+  const zoomLayer = treeSvg.querySelector<SVGGElement>('.zoom-layer');
+  if (!zoomLayer) throw new Error('The tree has not been drawn yet');
+
+  const box = zoomLayer.getBBox();
+  const layer = zoomLayer.cloneNode(true) as SVGGElement;
+  layer.setAttribute('transform', `translate(${PADDING - box.x},${PADDING - box.y})`);
+  if (!options.includePath) removeHighlight(layer);
+
+  let width = box.width + 2 * PADDING;
+  let height = box.height + 2 * PADDING;
+
+  const output = document.createElementNS(SVG_NAMESPACE, 'svg');
+  output.setAttribute('xmlns', SVG_NAMESPACE);
+  output.style.fontFamily = getComputedStyle(treeSvg).fontFamily;
+
+  const background = document.createElementNS(SVG_NAMESPACE, 'rect');
+  background.setAttribute('fill', '#ffffff');
+  output.appendChild(background);
+  output.appendChild(layer);
+
+  if (options.includeImportance && importanceSvg && importanceSvg.childElementCount > 0) {
+    const chartWidth = Number(importanceSvg.getAttribute('width')) || importanceSvg.getBoundingClientRect().width;
+    const chartHeight = Number(importanceSvg.getAttribute('height')) || importanceSvg.getBoundingClientRect().height;
+
+    const chart = document.createElementNS(SVG_NAMESPACE, 'g');
+    chart.setAttribute('transform', `translate(${PADDING},${height + SECTION_GAP})`);
+    Array.from(importanceSvg.childNodes).forEach(child => chart.appendChild(child.cloneNode(true)));
+    output.appendChild(chart);
+
+    width = Math.max(width, chartWidth + 2 * PADDING);
+    height += SECTION_GAP + chartHeight + PADDING;
+  }
+
+  background.setAttribute('width', String(width));
+  background.setAttribute('height', String(height));
+  output.setAttribute('width', String(width));
+  output.setAttribute('height', String(height));
+  output.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+  return {
+    markup: new XMLSerializer().serializeToString(output),
+    width,
+    height
+  };
+};
+
+// Saves `blob` through a temporary link, releasing the object URL once the click has started the download
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const downloadSvg = (svg: ExportedSvg, filename: string) => {
+  downloadBlob(new Blob([svg.markup], { type: 'image/svg+xml' }), filename);
+};
+
+// Rasterises the SVG at `scale` device pixels per SVG unit, shrinking it if the canvas would be too large
+export const downloadPng = async (svg: ExportedSvg, scale: number, filename: string): Promise<void> => {
+  const effectiveScale = Math.min(scale, MAX_CANVAS_SIDE / svg.width, MAX_CANVAS_SIDE / svg.height);
+  const url = URL.createObjectURL(new Blob([svg.markup], { type: 'image/svg+xml' }));
+
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('The browser could not render the exported SVG'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(svg.width * effectiveScale);
+    canvas.height = Math.ceil(svg.height * effectiveScale);
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas rendering is not available');
+    context.scale(effectiveScale, effectiveScale);
+    context.drawImage(image, 0, 0, svg.width, svg.height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('The PNG is too large to encode');
+    downloadBlob(blob, filename);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
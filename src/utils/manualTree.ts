@@ -0,0 +1,36 @@
+import { DataPoint, NodeBuilder, TreeNode } from './dataLoader';
+
+// Indices of the rows of `data` whose path through `tree` passes `node`
+export const rowsReaching = (tree: TreeNode, node: TreeNode, data: DataPoint[]): number[] => {
+  const rows: number[] = [];
+  data.forEach((row, i) => {
+    let current: TreeNode = tree;
+    while (current !== node) {
+      if (!current.children || current.feature === undefined) return;
+      const value = row[current.feature];
+      const goesLeft = typeof current.threshold === 'number'
+        ? Number(value) <= current.threshold
+        : String(value) === String(current.threshold);
+      current = current.children[goesLeft ? 0 : 1];
+    }
+    rows.push(i);
+  });
+  return rows;
+};
+
+export const containsNode = (tree: TreeNode, node: TreeNode): boolean =>
+  tree === node || !!tree.children?.some(child => containsNode(child, node));
+
+// Copy of `tree` with `node` swapped for `replacement`; the root keeps its task and criterion
+export const replaceNode = (tree: TreeNode, node: TreeNode, replacement: TreeNode): TreeNode => {
+  if (tree === node) return { ...replacement, criterion: tree.criterion, task: tree.task };
+  if (!tree.children) return tree;
+  return { ...tree, children: tree.children.map(child => replaceNode(child, node, replacement)) };
+};
+
+// A single leaf over every row, the starting point of a hand-built tree
+export const manualRoot = (builder: NodeBuilder, data: DataPoint[], tree: Pick<TreeNode, 'criterion' | 'task'>): TreeNode => ({
+  ...builder.leaf(data.map((_, i) => i)),
+  criterion: tree.criterion,
+  task: tree.task
+});
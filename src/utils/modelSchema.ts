@@ -0,0 +1,228 @@
+import { DataPoint, TreeNode, TreeOptions, TreeTask, DEFAULT_TREE_OPTIONS, formatCondition } from './dataLoader';
+import { SPLIT_CRITERIA, SplitCriterion } from './splitCriteria';
+
+export const MODEL_FORMAT = 'xai-decision-tree';
+export const MODEL_SCHEMA_VERSION = 1;
+
+export interface DatasetFingerprint {
+  rows: number;
+  columns: string[];
+  // FNV-1a hash of every cell, in row order
+  hash: string;
+}
+
+export interface ModelDatasetInfo {
+  name: string;
+  target: string;
+  fingerprint: DatasetFingerprint;
+}
+
+export interface SerializedSplit {
+  // Raw column key used to look up input values
+  feature: string;
+  // Human-readable name shown in the viewer
+  label: string;
+  type: 'numeric' | 'categorical';
+  // Rows go left when value <= threshold (numeric) or value === threshold (categorical)
+  threshold: number | string;
+  score: number;
+}
+
+export interface SerializedNode {
+  samples: number;
+  distribution?: { [label: string]: number };
+  mean?: number;
+  std?: number;
+  // Internal nodes have a split and exactly two children: [true branch, false branch]
+  split?: SerializedSplit;
+  children?: [SerializedNode, SerializedNode];
+  // Leaves only
+  prediction?: string;
+  confidence?: number;
+}
+
+export interface TreeModelFile {
+  format: typeof MODEL_FORMAT;
+  version: number;
+  createdAt: string;
+  task: TreeTask;
+  criterion: SplitCriterion;
+  hyperparameters: TreeOptions;
+  dataset: ModelDatasetInfo;
+  // Class labels seen in training; empty for regression
+  classes: string[];
+  // Alpha the exported tree was pruned to; 0 when unpruned
+  pruningAlpha: number;
+  tree: SerializedNode;
+}
+
+export const fingerprintDataset = (data: DataPoint[]): DatasetFingerprint => {
+  const columns = Object.keys(data[0] || {});
+  let hash = 0x811c9dc5;
+  const mix = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+  };
+
+  data.forEach(row => {
+    columns.forEach(column => {
+      mix(String(row[column]));
+      mix('\u001f');
+    });
+    mix('\u001e');
+  });
+
+  return { rows: data.length, columns, hash: (hash >>> 0).toString(16).padStart(8, '0') };
+};
+
+export const describeDataset = (name: string, target: string, data: DataPoint[]): ModelDatasetInfo => ({
+  name,
+  target,
+  fingerprint: fingerprintDataset(data)
+});
+
+const serializeNode = (node: TreeNode): SerializedNode => {
+  const stats: Pick<SerializedNode, 'samples' | 'distribution' | 'mean' | 'std'> = {
+    samples: node.samples || 0,
+    ...(node.distribution && { distribution: node.distribution }),
+    ...(node.mean !== undefined && { mean: node.mean, std: node.std || 0 })
+  };
+
+  if (node.children && node.feature !== undefined && node.threshold !== undefined) {
+    return {
+      ...stats,
+      split: {
+        feature: node.feature,
+        label: node.name,
+        type: typeof node.threshold === 'number' ? 'numeric' : 'categorical',
+        threshold: node.threshold,
+        score: node.confidence || 0
+      },
+      children: [serializeNode(node.children[0]), serializeNode(node.children[1])]
+    };
+  }
+
+  return {
+    ...stats,
+    prediction: node.name,
+    ...(node.confidence !== undefined && { confidence: node.confidence })
+  };
+};
+
+export const serializeModel = (
+  tree: TreeNode,
+  options: TreeOptions,
+  dataset: ModelDatasetInfo,
+  pruningAlpha = 0
+): TreeModelFile => ({
+  format: MODEL_FORMAT,
+  version: MODEL_SCHEMA_VERSION,
+  createdAt: new Date().toISOString(),
+  task: tree.task || 'classification',
+  criterion: tree.criterion || options.criterion,
+  hyperparameters: options,
+  dataset,
+  classes: tree.task === 'regression' ? [] : Object.keys(tree.distribution || {}).sort(),
+  pruningAlpha,
+  tree: serializeNode(tree)
+});
+
+const deserializeNode = (node: SerializedNode, path: string): TreeNode => {
+  if (typeof node !== 'object' || node === null) {
+    throw new Error(`Model node ${path} is not an object`);
+  }
+
+  const stats: Pick<TreeNode, 'samples' | 'distribution' | 'mean' | 'std'> = {
+    samples: node.samples,
+    ...(node.distribution && { distribution: node.distribution }),
+    ...(node.mean !== undefined && { mean: node.mean, std: node.std })
+  };
+
+  if (node.split) {
+    const { feature, label, type, threshold, score } = node.split;
+    if (typeof feature !== 'string' || !Array.isArray(node.children) || node.children.length !== 2) {
+      throw new Error(`Split at ${path} needs a feature and two children`);
+    }
+    if ((type === 'numeric') !== (typeof threshold === 'number')) {
+      throw new Error(`Split at ${path} has a ${typeof threshold} threshold for a ${type} feature`);
+    }
+
+    return {
+      name: label || feature,
+      condition: formatCondition(threshold),
+      confidence: score,
+      feature,
+      threshold,
+      isNumeric: type === 'numeric',
+      ...stats,
+      children: node.children.map((child, i) => deserializeNode(child, `${path}.${i}`))
+    };
+  }
+
+  if (typeof node.prediction !== 'string') {
+    throw new Error(`Leaf at ${path} has no prediction`);
+  }
+
+  return {
+    name: node.prediction,
+    value: 1,
+    ...(node.confidence !== undefined && { confidence: node.confidence }),
+    ...stats,
+    prediction: true
+  };
+};
+
+// Validates a saved model and rebuilds the viewer's tree from it
+export const parseModelFile = (json: string): { model: TreeModelFile; tree: TreeNode } => {
+  let model: TreeModelFile;
+  try {
+    model = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (model?.format !== MODEL_FORMAT) {
+    throw new Error('The file is not a decision tree model exported by this app');
+  }
+  if (typeof model.version !== 'number' || model.version > MODEL_SCHEMA_VERSION) {
+    throw new Error(`Model schema version ${model.version} is newer than this app supports (${MODEL_SCHEMA_VERSION})`);
+  }
+  if (model.task !== 'classification' && model.task !== 'regression') {
+    throw new Error(`Unknown model task "${model.task}"`);
+  }
+  if (!SPLIT_CRITERIA.some(c => c.value === model.criterion)) {
+    throw new Error(`Unknown split criterion "${model.criterion}"`);
+  }
+  if (!model.dataset || typeof model.dataset.target !== 'string') {
+    throw new Error('The model does not record its target column');
+  }
+
+  const tree: TreeNode = {
+    ...deserializeNode(model.tree, 'root'),
+    criterion: model.criterion,
+    task: model.task
+  };
+
+  // Splits must name raw column keys; a display label here would never match an input row
+  const columns = model.dataset.fingerprint?.columns || [];
+  const unknown = columns.length > 0 ? modelFeatures(model.tree).filter(feature => !columns.includes(feature)) : [];
+  if (unknown.length > 0) {
+    throw new Error(`The model splits on ${unknown.map(f => `"${f}"`).join(', ')}, which ${
+      unknown.length === 1 ? 'is not a column' : 'are not columns'
+    } of its training data`);
+  }
+
+  return {
+    model: { ...model, hyperparameters: { ...DEFAULT_TREE_OPTIONS, ...model.hyperparameters } },
+    tree
+  };
+};
+
+// Raw column keys the tree splits on, for checking a model against a dataset
+export const modelFeatures = (node: SerializedNode): string[] =>
+  Array.from(new Set([
+    ...(node.split ? [node.split.feature] : []),
+    ...(node.children || []).flatMap(modelFeatures)
+  ]));
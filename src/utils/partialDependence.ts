@@ -0,0 +1,76 @@
+import { DataPoint, TreeNode, findLeaf } from './dataLoader';
+import { FeatureDomain } from './counterfactuals';
+import { createRandom, shuffle } from './random';
+
+export interface PartialDependence {
+  feature: string;
+  numeric: boolean;
+  // Numeric grids are the feature's range cut at the tree's thresholds; the
+  // model is constant on each interval (previous point, point]
+  grid: (number | string)[];
+  average: number[];
+  ice: { row: number; values: number[] }[];
+}
+
+// Probability of `outputClass` at the leaf the row reaches, or the leaf mean for regression
+export const leafOutput = (tree: TreeNode, row: DataPoint, outputClass?: string): number => {
+  const leaf = findLeaf(tree, row);
+  if (outputClass === undefined) return leaf.mean || 0;
+  const total = Object.values(leaf.distribution || {}).reduce((sum, count) => sum + count, 0);
+  return total > 0 ? (leaf.distribution![outputClass] || 0) / total : 0;
+};
+
+const collectThresholds = (node: TreeNode, feature: string, into: Set<number>) => {
+  if (!node.children) return;
+  if (node.feature === feature && typeof node.threshold === 'number') into.add(node.threshold);
+  node.children.forEach(child => collectThresholds(child, feature, into));
+};
+
+/**
+ * Partial dependence of the tree's output on one feature: every row is
+ * re-scored with the feature set to each grid value and the results
+ * averaged. Individual conditional expectation lines are kept for a seeded
+ * sample of `iceRows` rows.
+ */
+export const computePartialDependence = (
+  tree: TreeNode,
+  data: DataPoint[],
+  domain: FeatureDomain,
+  outputClass?: string,
+  iceRows = 40,
+  seed = 42
+): PartialDependence => {
+  let grid: (number | string)[];
+  if (domain.type === 'numeric') {
+    const min = domain.min ?? 0;
+    const max = domain.max ?? min;
+    const thresholds = new Set<number>();
+    collectThresholds(tree, domain.name, thresholds);
+    grid = [min, ...Array.from(thresholds).filter(t => t > min && t < max).sort((a, b) => a - b), max];
+    if (max === min) grid = [min];
+  } else {
+    grid = domain.options || [];
+  }
+
+  const sampled = new Set(
+    shuffle(data.map((_, i) => i), createRandom(seed)).slice(0, iceRows)
+  );
+  const totals = grid.map(() => 0);
+  const ice: PartialDependence['ice'] = [];
+
+  data.forEach((row, i) => {
+    const values = grid.map(value => leafOutput(tree, { ...row, [domain.name]: value }, outputClass));
+    values.forEach((value, k) => {
+      totals[k] += value;
+    });
+    if (sampled.has(i)) ice.push({ row: i, values });
+  });
+
+  return {
+    feature: domain.name,
+    numeric: domain.type === 'numeric',
+    grid,
+    average: totals.map(total => (data.length > 0 ? total / data.length : 0)),
+    ice
+  };
+};
@@ -0,0 +1,321 @@
+import {
+  DataPoint,
+  TreeNode,
+  TreeTask,
+  DEFAULT_TREE_OPTIONS,
+  formatCondition,
+  formatEstimate
+} from './dataLoader';
+import { TreeModelFile, serializeModel } from './modelSchema';
+import { collapseToLeaf } from './pruning';
+
+const PMML_NAMESPACE = 'http://www.dmg.org/PMML-4_4';
+
+interface DataField {
+  name: string;
+  optype: 'continuous' | 'categorical';
+  values: string[];
+}
+
+const escapeXml = (text: string | number): string =>
+  String(text)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const attributes = (attrs: { [name: string]: string | number | undefined }): string =>
+  Object.entries(attrs)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) => ` ${name}="${escapeXml(value as string | number)}"`)
+    .join('');
+
+// Whether each split feature is compared numerically, so field types agree with the predicates
+const splitTypes = (node: TreeNode, types = new Map<string, boolean>()): Map<string, boolean> => {
+  if (node.children && node.feature !== undefined && node.threshold !== undefined) {
+    types.set(node.feature, typeof node.threshold === 'number');
+    node.children.forEach(child => splitTypes(child, types));
+  }
+  return types;
+};
+
+// Field types follow the tree's splits; unused features get the trainer's test of every value being a number
+const buildDataDictionary = (tree: TreeNode, data: DataPoint[], target: string, task: TreeTask): DataField[] => {
+  const types = splitTypes(tree);
+  const columns = Object.keys(data[0] || {}).filter(c => c !== 'id' && c !== 'loan_id');
+  const features = columns.filter(c => c !== target);
+
+  const describe = (column: string, continuous: boolean): DataField => ({
+    name: column,
+    optype: continuous ? 'continuous' : 'categorical',
+    values: continuous ? [] : Array.from(new Set(data.map(row => String(row[column])))).sort()
+  });
+
+  return [
+    ...features.map(column =>
+      describe(column, types.get(column) ?? data.every(row => typeof row[column] === 'number'))
+    ),
+    // Class labels are categorical even when they are coded as numbers
+    describe(target, task === 'regression')
+  ];
+};
+
+const nodeXml = (node: TreeNode, predicate: string, indent: string, nextId: { value: number }): string => {
+  const id = nextId.value++;
+  const inner = `${indent}  `;
+  // Splits score as the leaf they would collapse into, which consumers return for rows with missing values
+  const score = node.mean ?? (!node.children ? node.name : node.distribution ? collapseToLeaf(node).name : undefined);
+  const lines = [`${indent}<Node${attributes({ id, score, recordCount: node.samples })}>`];
+
+  if (node.feature && node.children) {
+    lines.push(`${inner}<Extension${attributes({ name: 'label', value: node.name })}/>`);
+  }
+  lines.push(`${inner}${predicate}`);
+
+  const distribution = node.distribution || {};
+  const total = Object.values(distribution).reduce((sum, count) => sum + count, 0) || 1;
+  Object.entries(distribution).forEach(([label, count]) => {
+    lines.push(`${inner}<ScoreDistribution${attributes({ value: label, recordCount: count, probability: count / total })}/>`);
+  });
+
+  if (node.feature && node.children && node.threshold !== undefined) {
+    const numeric = typeof node.threshold === 'number';
+    const field = node.feature;
+    const value = node.threshold;
+    lines.push(nodeXml(
+      node.children[0],
+      `<SimplePredicate${attributes({ field, operator: numeric ? 'lessOrEqual' : 'equal', value })}/>`,
+      inner,
+      nextId
+    ));
+    lines.push(nodeXml(
+      node.children[1],
+      `<SimplePredicate${attributes({ field, operator: numeric ? 'greaterThan' : 'notEqual', value })}/>`,
+      inner,
+      nextId
+    ));
+  }
+
+  lines.push(`${indent}</Node>`);
+  return lines.join('\n');
+};
+
+/**
+ * Writes the tree as a PMML 4.4 TreeModel with binary splits. Every node
+ * carries its score and training row count; classification nodes also list
+ * their class counts as ScoreDistributions.
+ */
+export const exportPmml = (
+  tree: TreeNode,
+  data: DataPoint[],
+  target: string,
+  modelName: string
+): string => {
+  const task = tree.task || 'classification';
+  const fields = buildDataDictionary(tree, data, target, task);
+
+  const dataFields = fields.map(field => {
+    const dataType = field.optype === 'continuous' ? 'double' : 'string';
+    if (field.values.length === 0) {
+      return `    <DataField${attributes({ name: field.name, optype: field.optype, dataType })}/>`;
+    }
+    return [
+      `    <DataField${attributes({ name: field.name, optype: field.optype, dataType })}>`,
+      ...field.values.map(value => `      <Value${attributes({ value })}/>`),
+      '    </DataField>'
+    ].join('\n');
+  });
+
+  const miningFields = fields.map(field =>
+    `      <MiningField${attributes({ name: field.name, usageType: field.name === target ? 'target' : undefined })}/>`
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<PMML${attributes({ xmlns: PMML_NAMESPACE, version: '4.4' })}>`,
+    `  <Header${attributes({ description: `Decision tree predicting ${target}` })}>`,
+    `    <Application${attributes({ name: 'XAI Decision Tree Explorer' })}/>`,
+    `    <Timestamp>${new Date().toISOString()}</Timestamp>`,
+    '  </Header>',
+    `  <DataDictionary${attributes({ numberOfFields: fields.length })}>`,
+    ...dataFields,
+    '  </DataDictionary>',
+    `  <TreeModel${attributes({
+      modelName,
+      functionName: task,
+      splitCharacteristic: 'binarySplit',
+      noTrueChildStrategy: 'returnLastPrediction'
+    })}>`,
+    '    <MiningSchema>',
+    ...miningFields,
+    '    </MiningSchema>',
+    nodeXml(tree, '<True/>', '    ', { value: 0 }),
+    '  </TreeModel>',
+    '</PMML>',
+    ''
+  ].join('\n');
+};
+
+const childElements = (element: Element, name: string): Element[] =>
+  Array.from(element.children).filter(child => child.localName === name);
+
+const PREDICATES = ['True', 'SimplePredicate', 'CompoundPredicate', 'SimpleSetPredicate', 'False'];
+
+// Pairs of predicates we can represent as one of the viewer's binary splits
+const COMPLEMENTS: { [operator: string]: string } = {
+  lessOrEqual: 'greaterThan',
+  equal: 'notEqual'
+};
+
+const parseNode = (
+  element: Element,
+  task: TreeTask,
+  path: string
+): TreeNode => {
+  const samples = Number(element.getAttribute('recordCount')) || undefined;
+  const score = element.getAttribute('score');
+
+  const distribution: { [label: string]: number } = {};
+  let confidence: number | undefined;
+  childElements(element, 'ScoreDistribution').forEach(sd => {
+    const label = sd.getAttribute('value') || '';
+    distribution[label] = Number(sd.getAttribute('recordCount')) || 0;
+    if (label === score && sd.getAttribute('probability') !== null) {
+      confidence = Number(sd.getAttribute('probability'));
+    }
+  });
+  const total = Object.values(distribution).reduce((sum, count) => sum + count, 0);
+  if (confidence === undefined && score !== null && total > 0) {
+    confidence = (distribution[score] || 0) / total;
+  }
+
+  const stats: Pick<TreeNode, 'samples' | 'distribution' | 'mean'> = {
+    samples: samples ?? (total || undefined),
+    ...(total > 0 && { distribution }),
+    ...(task === 'regression' && score !== null && { mean: Number(score) })
+  };
+
+  const children = childElements(element, 'Node');
+  if (children.length === 0) {
+    if (score === null) throw new Error(`PMML leaf ${path} has no score`);
+    return {
+      name: task === 'regression' ? formatEstimate(Number(score)) : score,
+      value: 1,
+      confidence,
+      ...stats,
+      prediction: true
+    };
+  }
+
+  if (children.length !== 2) {
+    throw new Error(`PMML node ${path} has ${children.length} children; only binary splits are supported`);
+  }
+
+  const predicateOf = (child: Element) =>
+    Array.from(child.children).find(c => PREDICATES.includes(c.localName));
+  let [first, second] = children;
+  let predicate = predicateOf(first);
+  // Some tools list the greater-than branch first
+  if (predicate?.getAttribute('operator') === 'greaterThan' || predicate?.getAttribute('operator') === 'notEqual') {
+    [first, second] = [second, first];
+    predicate = predicateOf(first);
+  }
+
+  const operator = predicate?.getAttribute('operator') || '';
+  if (predicate?.localName !== 'SimplePredicate' || !COMPLEMENTS[operator]) {
+    throw new Error(
+      `PMML node ${path} splits with ${predicate?.localName || 'no predicate'} ${operator}; ` +
+      'only lessOrEqual/greaterThan and equal/notEqual splits are supported'
+    );
+  }
+
+  const feature = predicate.getAttribute('field') || '';
+  const rawValue = predicate.getAttribute('value') || '';
+  const otherPredicate = predicateOf(second);
+  const complementary = otherPredicate?.localName === 'True' || (
+    otherPredicate?.localName === 'SimplePredicate' &&
+    otherPredicate.getAttribute('field') === feature &&
+    otherPredicate.getAttribute('operator') === COMPLEMENTS[operator] &&
+    otherPredicate.getAttribute('value') === rawValue
+  );
+  if (!complementary) {
+    throw new Error(`The branches of PMML node ${path} don't cover complementary conditions`);
+  }
+
+  // The operator alone decides how rows are routed; an equal split on a continuous field stays an equality test
+  const numeric = operator === 'lessOrEqual';
+  const threshold = numeric ? Number(rawValue) : rawValue;
+  if (numeric && (rawValue.trim() === '' || Number.isNaN(threshold))) {
+    throw new Error(`PMML node ${path} compares ${feature} with the non-numeric value "${rawValue}"`);
+  }
+  const label = childElements(element, 'Extension').find(e => e.getAttribute('name') === 'label');
+
+  return {
+    name: label?.getAttribute('value') || feature,
+    condition: formatCondition(threshold),
+    feature,
+    threshold,
+    isNumeric: numeric,
+    ...stats,
+    children: [parseNode(first, task, `${path}.0`), parseNode(second, task, `${path}.1`)]
+  };
+};
+
+/**
+ * Reads a PMML TreeModel, from this app or another tool, into the viewer's
+ * tree. Only binary trees whose splits are a single comparison and its
+ * complement can be represented.
+ */
+export const parsePmml = (xml: string): { model: TreeModelFile; tree: TreeNode } => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('The file is not well-formed XML');
+  }
+
+  const treeModel = doc.getElementsByTagNameNS('*', 'TreeModel')[0];
+  if (!treeModel) throw new Error('The PMML file has no TreeModel');
+
+  const functionName = treeModel.getAttribute('functionName');
+  if (functionName !== 'classification' && functionName !== 'regression') {
+    throw new Error(`Unsupported TreeModel function "${functionName}"`);
+  }
+  const task: TreeTask = functionName;
+
+  const fields = new Map<string, DataField>();
+  Array.from(doc.getElementsByTagNameNS('*', 'DataField')).forEach(field => {
+    const name = field.getAttribute('name') || '';
+    fields.set(name, {
+      name,
+      optype: field.getAttribute('optype') === 'continuous' ? 'continuous' : 'categorical',
+      values: childElements(field, 'Value').map(v => v.getAttribute('value') || '')
+    });
+  });
+
+  const miningSchema = childElements(treeModel, 'MiningSchema')[0];
+  const targetField = miningSchema && childElements(miningSchema, 'MiningField')
+    .find(f => ['target', 'predicted'].includes(f.getAttribute('usageType') || ''));
+  const target = targetField?.getAttribute('name');
+  if (!target) throw new Error('The PMML mining schema has no target field');
+
+  const root = childElements(treeModel, 'Node')[0];
+  if (!root) throw new Error('The TreeModel has no root node');
+
+  const tree: TreeNode = {
+    ...parseNode(root, task, 'root'),
+    criterion: DEFAULT_TREE_OPTIONS.criterion,
+    task
+  };
+
+  const model = serializeModel(
+    tree,
+    { ...DEFAULT_TREE_OPTIONS, task },
+    {
+      name: treeModel.getAttribute('modelName') || 'PMML model',
+      target,
+      // External models carry no row data to fingerprint
+      fingerprint: { rows: tree.samples || 0, columns: Array.from(fields.keys()), hash: '' }
+    }
+  );
+
+  return { model, tree };
+};
@@ -0,0 +1,110 @@
+import { DataPoint, TreeNode, formatEstimate } from './dataLoader';
+import { impurity, SplitCriterion } from './splitCriteria';
+import { evaluateTree, evaluateRegression } from './evaluation';
+
+export interface PruningStep {
+  alpha: number;
+  leaves: number;
+  // Total leaf impurity R(T), weighted by the share of training rows;
+  // the training mean squared error for regression trees
+  cost: number;
+  tree: TreeNode;
+}
+
+// Gain ratio trees are scored with entropy; the ratio is only a split-selection rule
+const costCriterion = (criterion?: SplitCriterion): SplitCriterion =>
+  criterion === 'gini' ? 'gini' : 'entropy';
+
+const nodeCost = (node: TreeNode, totalSamples: number, criterion: SplitCriterion): number => {
+  const share = (node.samples || 0) / totalSamples;
+  if (node.std !== undefined) return share * node.std * node.std;
+  return share * impurity(Object.values(node.distribution || {}), criterion);
+};
+
+export const countLeaves = (node: TreeNode): number =>
+  node.children ? node.children.reduce((sum, child) => sum + countLeaves(child), 0) : 1;
+
+// Turns an internal node into a leaf predicting its majority class, or its mean for regression
+export const collapseToLeaf = (node: TreeNode): TreeNode => {
+  if (node.mean !== undefined) {
+    return {
+      name: formatEstimate(node.mean),
+      value: 1,
+      samples: node.samples,
+      mean: node.mean,
+      std: node.std,
+      prediction: true
+    };
+  }
+
+  const entries = Object.entries(node.distribution || { [node.name]: 1 });
+  const [majorityClass, majorityCount] = entries.reduce((a, b) => (a[1] > b[1] ? a : b));
+  const samples = node.samples || entries.reduce((sum, [, count]) => sum + count, 0);
+
+  return {
+    name: majorityClass,
+    value: 1,
+    confidence: samples > 0 ? majorityCount / samples : 0,
+    samples: node.samples,
+    distribution: node.distribution,
+    prediction: true
+  };
+};
+
+/**
+ * Minimal cost-complexity (weakest link) pruning, as in CART. Each step
+ * collapses the internal nodes with the smallest
+ * g(t) = (R(t) - R(T_t)) / (|leaves(T_t)| - 1), where R is the node impurity
+ * weighted by its share of training rows. The first step is the unpruned tree
+ * and the last is the root alone.
+ */
+export const computePruningPath = (tree: TreeNode): PruningStep[] => {
+  const totalSamples = tree.samples || 1;
+  const criterion = costCriterion(tree.criterion);
+
+  const subtreeCost = (node: TreeNode): number =>
+    node.children
+      ? node.children.reduce((sum, child) => sum + subtreeCost(child), 0)
+      : nodeCost(node, totalSamples, criterion);
+
+  const weakestLink = (node: TreeNode): number => {
+    if (!node.children) return Infinity;
+    const g = (nodeCost(node, totalSamples, criterion) - subtreeCost(node)) / (countLeaves(node) - 1);
+    return Math.min(g, ...node.children.map(weakestLink));
+  };
+
+  const pruneAt = (node: TreeNode, alpha: number): TreeNode => {
+    if (!node.children) return node;
+    const g = (nodeCost(node, totalSamples, criterion) - subtreeCost(node)) / (countLeaves(node) - 1);
+    // Small tolerance so ties collapse together despite float noise
+    if (g <= alpha + 1e-12) return collapseToLeaf(node);
+    return { ...node, children: node.children.map(child => pruneAt(child, alpha)) };
+  };
+
+  const steps: PruningStep[] = [
+    { alpha: 0, leaves: countLeaves(tree), cost: subtreeCost(tree), tree }
+  ];
+
+  let current = tree;
+  while (current.children) {
+    const alpha = Math.max(0, weakestLink(current));
+    current = { ...pruneAt(current, alpha), criterion: tree.criterion, task: tree.task };
+    steps.push({ alpha, leaves: countLeaves(current), cost: subtreeCost(current), tree: current });
+  }
+
+  return steps;
+};
+
+// Holdout misclassification rate (mean squared error for regression) for every tree on the pruning path
+export const validationErrors = (
+  path: PruningStep[],
+  test: DataPoint[],
+  target: string
+): number[] =>
+  test.length === 0
+    ? path.map(() => NaN)
+    : path.map(step =>
+        step.tree.task === 'regression'
+          ? evaluateRegression(step.tree, test, target).rmse ** 2
+          : 1 - evaluateTree(step.tree, test, target).accuracy
+      );
@@ -0,0 +1,123 @@
+import { DataPoint, TreeNode, TreeOptions, TreeBuildProgress, buildDecisionTree, predictFromTree } from './dataLoader';
+import { createRandom } from './random';
+
+export type MaxFeaturesRule = 'sqrt' | 'log2' | 'half' | 'all';
+
+export interface ForestOptions {
+  numTrees: number;
+  maxFeatures: MaxFeaturesRule;
+  // Bootstrap sample size as a fraction of the training rows
+  sampleFraction: number;
+  seed: number;
+}
+
+export const DEFAULT_FOREST_OPTIONS: ForestOptions = {
+  numTrees: 25,
+  maxFeatures: 'sqrt',
+  sampleFraction: 1,
+  seed: 7
+};
+
+export interface RandomForest {
+  trees: TreeNode[];
+  options: ForestOptions;
+  featuresPerSplit: number;
+}
+
+export interface ForestBuildProgress extends TreeBuildProgress {
+  treesBuilt: number;
+  totalTrees: number;
+}
+
+export interface ForestPrediction {
+  prediction: string;
+  voteShare: number;
+  votes: { [label: string]: number };
+}
+
+export const resolveMaxFeatures = (rule: MaxFeaturesRule, featureCount: number): number => {
+  switch (rule) {
+    case 'sqrt':
+      return Math.max(1, Math.round(Math.sqrt(featureCount)));
+    case 'log2':
+      return Math.max(1, Math.round(Math.log2(featureCount)));
+    case 'half':
+      return Math.max(1, Math.round(featureCount / 2));
+    case 'all':
+      return featureCount;
+  }
+};
+
+/**
+ * Bagged ensemble of `buildDecisionTree` trees. Each tree sees a bootstrap
+ * sample of the rows and draws a fresh random subset of features at every split.
+ */
+export const buildRandomForest = (
+  data: DataPoint[],
+  target: string,
+  treeOptions: TreeOptions,
+  forestOptions: ForestOptions,
+  onProgress?: (progress: ForestBuildProgress) => void
+): RandomForest => {
+  const random = createRandom(forestOptions.seed);
+  const featureCount = Object.keys(data[0] || {})
+    .filter(f => f !== target && f !== 'id' && f !== 'loan_id').length;
+  const featuresPerSplit = resolveMaxFeatures(forestOptions.maxFeatures, featureCount);
+  const sampleSize = Math.max(1, Math.round(data.length * forestOptions.sampleFraction));
+
+  const trees: TreeNode[] = [];
+  for (let t = 0; t < forestOptions.numTrees; t++) {
+    const bootstrap = Array.from({ length: sampleSize }, () => data[Math.floor(random() * data.length)]);
+
+    const tree = buildDecisionTree(
+      bootstrap,
+      target,
+      {
+        ...treeOptions,
+        maxFeatures: featuresPerSplit,
+        // Each tree needs its own feature draws
+        seed: Math.floor(random() * 2 ** 31)
+      },
+      (progress) => onProgress?.({ ...progress, treesBuilt: t, totalTrees: forestOptions.numTrees })
+    );
+    if (tree) trees.push(tree);
+  }
+
+  onProgress?.({
+    nodesExpanded: 0,
+    depth: 0,
+    treesBuilt: forestOptions.numTrees,
+    totalTrees: forestOptions.numTrees
+  });
+
+  return { trees, options: forestOptions, featuresPerSplit };
+};
+
+// Majority vote of the member trees; ties go to the label that reached the count first
+export const predictFromForest = (
+  forest: RandomForest,
+  input: { [key: string]: string | number }
+): ForestPrediction => {
+  const votes: { [label: string]: number } = {};
+  forest.trees.forEach(tree => {
+    const { prediction } = predictFromTree(tree, input);
+    votes[prediction] = (votes[prediction] || 0) + 1;
+  });
+
+  const [prediction, count] = Object.entries(votes).reduce(
+    (best, entry) => (entry[1] > best[1] ? entry : best),
+    ['', 0] as [string, number]
+  );
+
+  return {
+    prediction,
+    voteShare: forest.trees.length > 0 ? count / forest.trees.length : 0,
+    votes
+  };
+};
+
+export const forestAccuracy = (forest: RandomForest, test: DataPoint[], target: string): number => {
+  if (test.length === 0) return 0;
+  const correct = test.filter(row => predictFromForest(forest, row).prediction === String(row[target])).length;
+  return correct / test.length;
+};
@@ -0,0 +1,121 @@
+import Papa from 'papaparse';
+import { TreeNode, formatEstimate, formatThreshold } from './dataLoader';
+
+export interface TreeRule {
+  // Nodes from the root to the leaf, for highlighting the path
+  path: TreeNode[];
+  conditions: string[];
+  prediction: string;
+  samples: number;
+  confidence: number;
+  distribution: { [label: string]: number };
+  mean?: number;
+  std?: number;
+}
+
+// Everything a path says about one feature, merged so each feature appears once per rule
+interface FeatureBounds {
+  label: string;
+  lower?: number;
+  upper?: number;
+  equals?: string;
+  excludes: string[];
+}
+
+const describeBounds = ({ label, lower, upper, equals, excludes }: FeatureBounds): string => {
+  if (equals !== undefined) return `${label} = "${equals}"`;
+  if (excludes.length > 0) {
+    return excludes.length === 1
+      ? `${label} ≠ "${excludes[0]}"`
+      : `${label} ∉ {${excludes.map(value => `"${value}"`).join(', ')}}`;
+  }
+  if (lower !== undefined && upper !== undefined) {
+    return `${formatThreshold(lower)} < ${label} ≤ ${formatThreshold(upper)}`;
+  }
+  return upper !== undefined ? `${label} ≤ ${formatThreshold(upper)}` : `${label} > ${formatThreshold(lower!)}`;
+};
+
+/**
+ * One IF … THEN … rule per leaf. Conditions on the same feature are merged,
+ * so `age ≤ 50 AND age ≤ 40` becomes `age ≤ 40` and a lower and upper bound
+ * become a single range. Features keep the order they are first split on.
+ */
+export const extractRules = (tree: TreeNode): TreeRule[] => {
+  const rules: TreeRule[] = [];
+
+  const visit = (node: TreeNode, path: TreeNode[], bounds: Map<string, FeatureBounds>) => {
+    const nodePath = [...path, node];
+
+    if (!node.children || node.feature === undefined || node.threshold === undefined) {
+      rules.push({
+        path: nodePath,
+        conditions: Array.from(bounds.values()).map(describeBounds),
+        prediction: node.name,
+        samples: node.samples || 0,
+        confidence: node.confidence || 0,
+        distribution: node.distribution || {},
+        ...(node.mean !== undefined && { mean: node.mean, std: node.std || 0 })
+      });
+      return;
+    }
+
+    const { feature, threshold } = node;
+    node.children.forEach((child, i) => {
+      const previous = bounds.get(feature);
+      const merged: FeatureBounds = previous
+        ? { ...previous, excludes: [...previous.excludes] }
+        : { label: node.name, excludes: [] };
+
+      if (typeof threshold === 'number') {
+        if (i === 0) merged.upper = Math.min(merged.upper ?? Infinity, threshold);
+        else merged.lower = Math.max(merged.lower ?? -Infinity, threshold);
+      } else if (i === 0) {
+        merged.equals = threshold;
+      } else if (!merged.excludes.includes(threshold)) {
+        merged.excludes.push(threshold);
+      }
+
+      const next = new Map(bounds);
+      next.set(feature, merged);
+      visit(child, nodePath, next);
+    });
+  };
+
+  visit(tree, [], new Map());
+  return rules;
+};
+
+export const ruleText = (rule: TreeRule, target: string): string => {
+  const outcome = rule.mean !== undefined ? formatEstimate(rule.mean) : `"${rule.prediction}"`;
+  const condition = rule.conditions.length > 0 ? rule.conditions.join(' AND ') : 'TRUE';
+  return `IF ${condition} THEN ${target} = ${outcome}`;
+};
+
+const formatDistribution = (distribution: { [label: string]: number }) =>
+  Object.entries(distribution).map(([label, count]) => `${label}: ${count}`).join('; ');
+
+const ruleRow = (rule: TreeRule, target: string): { [column: string]: string | number } => ({
+  rule: ruleText(rule, target),
+  prediction: rule.mean !== undefined ? rule.mean : rule.prediction,
+  samples: rule.samples,
+  ...(rule.mean !== undefined
+    ? { std: rule.std || 0 }
+    : { confidence: rule.confidence, distribution: formatDistribution(rule.distribution) })
+});
+
+export const rulesToCsv = (rules: TreeRule[], target: string): string =>
+  Papa.unparse(rules.map(rule => ruleRow(rule, target)));
+
+export const rulesToMarkdown = (rules: TreeRule[], target: string): string => {
+  const rows = rules.map(rule => ruleRow(rule, target));
+  if (rows.length === 0) return '';
+
+  const columns = Object.keys(rows[0]);
+  const cell = (value: string | number) => String(value).replace(/\|/g, '\\|');
+  return [
+    `| ${columns.join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${columns.map(column => cell(row[column])).join(' | ')} |`),
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,102 @@
+export type SplitCriterion = 'gini' | 'entropy' | 'gainRatio';
+
+// Number of rows per class, indexed by the builder's class index
+export type ClassCounts = number[];
+
+export const SPLIT_CRITERIA: { value: SplitCriterion; label: string; description: string }[] = [
+  {
+    value: 'gini',
+    label: 'Gini impurity',
+    description: 'CART-style: chance of mislabelling a random sample from the node'
+  },
+  {
+    value: 'entropy',
+    label: 'Entropy',
+    description: 'ID3-style information gain in bits'
+  },
+  {
+    value: 'gainRatio',
+    label: 'Gain ratio',
+    description: 'C4.5: information gain divided by split information, penalising lopsided splits'
+  }
+];
+
+export const getCriterionLabel = (criterion: SplitCriterion): string =>
+  SPLIT_CRITERIA.find(c => c.value === criterion)?.label || criterion;
+
+const countTotal = (counts: ClassCounts) =>
+  counts.reduce((sum, count) => sum + count, 0);
+
+export const entropy = (counts: ClassCounts): number => {
+  const total = countTotal(counts);
+  if (total === 0) return 0;
+
+  return -counts.reduce((sum, count) => {
+    if (count === 0) return sum;
+    const p = count / total;
+    return sum + p * Math.log2(p);
+  }, 0);
+};
+
+export const gini = (counts: ClassCounts): number => {
+  const total = countTotal(counts);
+  if (total === 0) return 0;
+
+  return 1 - counts.reduce((sum, count) => {
+    const p = count / total;
+    return sum + p * p;
+  }, 0);
+};
+
+export const impurity = (counts: ClassCounts, criterion: SplitCriterion): number =>
+  criterion === 'gini' ? gini(counts) : entropy(counts);
+
+/**
+ * Scores a binary split. `gain` is the weighted impurity decrease and `score`
+ * is the value the split search maximises; they differ only for gain ratio,
+ * where the information gain is divided by the entropy of the branch sizes.
+ */
+export const scoreSplit = (
+  parent: ClassCounts,
+  left: ClassCounts,
+  right: ClassCounts,
+  criterion: SplitCriterion
+): { gain: number; score: number } => {
+  const total = countTotal(parent);
+  const leftTotal = countTotal(left);
+  const rightTotal = countTotal(right);
+  if (total === 0 || leftTotal === 0 || rightTotal === 0) return { gain: 0, score: 0 };
+
+  const after = (leftTotal / total) * impurity(left, criterion) +
+                (rightTotal / total) * impurity(right, criterion);
+  const gain = impurity(parent, criterion) - after;
+
+  if (criterion !== 'gainRatio') return { gain, score: gain };
+
+  const splitInfo = entropy([leftTotal, rightTotal]);
+  return { gain, score: splitInfo > 0 ? gain / splitInfo : 0 };
+};
+
+// Row count, sum and sum of squares of a numeric target, for regression trees
+export type RegressionStats = number[];
+
+export const sumSquaredError = ([count, sum, sumSquares]: RegressionStats): number =>
+  count > 0 ? Math.max(0, sumSquares - (sum * sum) / count) : 0;
+
+/**
+ * Scores a regression split by the share of the parent's squared error it
+ * removes. Dividing by the parent's error keeps the score between 0 and 1
+ * whatever the target's units, so `minGain` still applies, and it does not
+ * change which split wins at a given node.
+ */
+export const scoreRegressionSplit = (
+  parent: RegressionStats,
+  left: RegressionStats,
+  right: RegressionStats
+): { gain: number; score: number } => {
+  const parentError = sumSquaredError(parent);
+  if (parentError === 0 || left[0] === 0 || right[0] === 0) return { gain: 0, score: 0 };
+
+  const reduction = (parentError - sumSquaredError(left) - sumSquaredError(right)) / parentError;
+  return { gain: reduction, score: reduction };
+};
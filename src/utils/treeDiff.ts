@@ -0,0 +1,86 @@
+import { TreeNode } from './dataLoader';
+
+// same: identical split or leaf prediction; threshold: same feature, different
+// cut; feature: split on different features; prediction: leaves disagree;
+// structure: a split in one tree is a leaf in the other; only: node exists in one tree
+export type NodeDiffStatus = 'same' | 'threshold' | 'feature' | 'prediction' | 'structure' | 'only';
+
+export const DIFF_STATUSES: { value: NodeDiffStatus; label: string; color: string }[] = [
+  { value: 'same', label: 'Same split or prediction', color: '#c7d2fe' },
+  { value: 'threshold', label: 'Different threshold', color: '#fcd34d' },
+  { value: 'feature', label: 'Different feature', color: '#f87171' },
+  { value: 'prediction', label: 'Different prediction', color: '#fb923c' },
+  { value: 'structure', label: 'Split in one tree, leaf in the other', color: '#c4b5fd' },
+  { value: 'only', label: 'Only in this tree', color: '#86efac' }
+];
+
+// Trees are aligned by position: the node reached by the same true/false branches from the root
+export interface AlignedNode {
+  // Branch indices from the root, e.g. "0.1"; "root" for the root
+  id: string;
+  a?: TreeNode;
+  b?: TreeNode;
+  status: NodeDiffStatus;
+  children: AlignedNode[];
+}
+
+const isSplit = (node?: TreeNode): node is TreeNode & { children: TreeNode[] } =>
+  !!node?.children && node.feature !== undefined && node.threshold !== undefined;
+
+const sameThreshold = (x: number | string | undefined, y: number | string | undefined) =>
+  typeof x === 'number' && typeof y === 'number' ? Math.abs(x - y) < 1e-9 : x === y;
+
+const compareNodes = (a?: TreeNode, b?: TreeNode): NodeDiffStatus => {
+  if (!a || !b) return 'only';
+  if (isSplit(a) && isSplit(b)) {
+    if (a.feature !== b.feature) return 'feature';
+    return sameThreshold(a.threshold, b.threshold) ? 'same' : 'threshold';
+  }
+  if (isSplit(a) || isSplit(b)) return 'structure';
+  return a.name === b.name ? 'same' : 'prediction';
+};
+
+export const alignTrees = (a: TreeNode | undefined, b: TreeNode | undefined, id = 'root'): AlignedNode => {
+  const children: AlignedNode[] = [];
+  if (isSplit(a) || isSplit(b)) {
+    for (let i = 0; i < 2; i++) {
+      const childA = isSplit(a) ? a.children[i] : undefined;
+      const childB = isSplit(b) ? b.children[i] : undefined;
+      children.push(alignTrees(childA, childB, id === 'root' ? String(i) : `${id}.${i}`));
+    }
+  }
+  return { id, a, b, status: compareNodes(a, b), children };
+};
+
+export const countStatuses = (root: AlignedNode): { [status in NodeDiffStatus]: number } => {
+  const counts = { same: 0, threshold: 0, feature: 0, prediction: 0, structure: 0, only: 0 };
+  const visit = (node: AlignedNode) => {
+    counts[node.status]++;
+    node.children.forEach(visit);
+  };
+  visit(root);
+  return counts;
+};
+
+// Ids of the aligned nodes one tree sends `input` through
+export const routeInput = (
+  root: AlignedNode,
+  side: 'a' | 'b',
+  input: { [key: string]: string | number }
+): string[] => {
+  const ids: string[] = [];
+  let current: AlignedNode | undefined = root;
+
+  while (current && current[side]) {
+    ids.push(current.id);
+    const node: TreeNode = current[side]!;
+    if (!isSplit(node)) break;
+
+    const value = input[node.feature!];
+    const goesLeft = typeof node.threshold === 'number'
+      ? Number(value) <= node.threshold
+      : String(value) === node.threshold;
+    current = current.children[goesLeft ? 0 : 1];
+  }
+  return ids;
+};
@@ -0,0 +1,162 @@
+import { TreeNode, findLeaf } from './dataLoader';
+
+type Input = { [key: string]: string | number };
+
+export interface FeatureContribution {
+  // Raw column key and the label shown in the tree
+  feature: string;
+  label: string;
+  value: string | number | undefined;
+  contribution: number;
+}
+
+export interface ShapExplanation {
+  // Class whose probability is explained; undefined for regression, which explains the estimate
+  outputClass?: string;
+  baseValue: number;
+  outputValue: number;
+  contributions: FeatureContribution[];
+}
+
+// One feature on the current root-to-node path, in the notation of Lundberg et al. (2018)
+interface PathElement {
+  feature: string | null;
+  // Share of training rows that follow the path here when the feature is unknown
+  zero: number;
+  // 1 when the input itself follows the path, 0 otherwise
+  one: number;
+  weight: number;
+}
+
+const extendPath = (path: PathElement[], zero: number, one: number, feature: string | null): PathElement[] => {
+  const m = path.map(element => ({ ...element }));
+  const depth = m.length;
+  m.push({ feature, zero, one, weight: depth === 0 ? 1 : 0 });
+  for (let i = depth - 1; i >= 0; i--) {
+    m[i + 1].weight += one * m[i].weight * (i + 1) / (depth + 1);
+    m[i].weight = zero * m[i].weight * (depth - i) / (depth + 1);
+  }
+  return m;
+};
+
+// Undoes extendPath for element `index`, used when a feature is split on twice along a path
+const unwindPath = (path: PathElement[], index: number): PathElement[] => {
+  const m = path.map(element => ({ ...element }));
+  const depth = m.length - 1;
+  const { zero, one } = m[index];
+  let next = m[depth].weight;
+
+  for (let j = depth - 1; j >= 0; j--) {
+    if (one !== 0) {
+      const previous = m[j].weight;
+      m[j].weight = next * (depth + 1) / ((j + 1) * one);
+      next = previous - m[j].weight * zero * (depth - j) / (depth + 1);
+    } else {
+      m[j].weight = m[j].weight * (depth + 1) / (zero * (depth - j));
+    }
+  }
+
+  for (let j = index; j < depth; j++) {
+    m[j] = { ...m[j + 1], weight: m[j].weight };
+  }
+  m.pop();
+  return m;
+};
+
+// Total weight the path would have with element `index` unwound, without building it
+const unwoundPathSum = (path: PathElement[], index: number): number => {
+  const depth = path.length - 1;
+  const { zero, one } = path[index];
+  let next = path[depth].weight;
+  let total = 0;
+
+  for (let j = depth - 1; j >= 0; j--) {
+    if (one !== 0) {
+      const weight = next * (depth + 1) / ((j + 1) * one);
+      total += weight;
+      next = path[j].weight - weight * zero * (depth - j) / (depth + 1);
+    } else if (zero !== 0) {
+      total += (path[j].weight / zero) / ((depth - j) / (depth + 1));
+    }
+  }
+  return total;
+};
+
+/**
+ * Exact SHAP values for one input, using the path-dependent TreeSHAP
+ * algorithm: a feature missing from a coalition is marginalised by sending
+ * the input down both branches in proportion to the training rows that went
+ * each way. Base value plus contributions equals the leaf's output.
+ *
+ * Classification explains the probability of the class predicted for the
+ * input; regression explains the leaf mean.
+ */
+export const explainPrediction = (tree: TreeNode, input: Input): ShapExplanation => {
+  const regression = tree.task === 'regression';
+  const outputClass = regression ? undefined : findLeaf(tree, input).name;
+
+  const nodeValue = (node: TreeNode): number => {
+    if (regression) return node.mean || 0;
+    const total = Object.values(node.distribution || {}).reduce((sum, count) => sum + count, 0);
+    return total > 0 ? (node.distribution![outputClass!] || 0) / total : 0;
+  };
+
+  const phi = new Map<string, number>();
+  const labels = new Map<string, string>();
+
+  const recurse = (node: TreeNode, path: PathElement[], zero: number, one: number, feature: string | null) => {
+    const m = extendPath(path, zero, one, feature);
+
+    if (!node.children || node.feature === undefined || node.threshold === undefined) {
+      const value = nodeValue(node);
+      for (let i = 1; i < m.length; i++) {
+        const weight = unwoundPathSum(m, i);
+        const key = m[i].feature!;
+        phi.set(key, (phi.get(key) || 0) + weight * (m[i].one - m[i].zero) * value);
+      }
+      return;
+    }
+
+    if (!node.samples) {
+      throw new Error('TreeSHAP needs the training sample count of every node');
+    }
+    labels.set(node.feature, node.name);
+
+    const [left, right] = node.children;
+    const goesLeft = typeof node.threshold === 'number'
+      ? Number(input[node.feature]) <= node.threshold
+      : String(input[node.feature]) === node.threshold;
+    const [hot, cold] = goesLeft ? [left, right] : [right, left];
+
+    let incomingZero = 1;
+    let incomingOne = 1;
+    let rest = m;
+    const seen = m.findIndex(element => element.feature === node.feature);
+    if (seen >= 0) {
+      incomingZero = m[seen].zero;
+      incomingOne = m[seen].one;
+      rest = unwindPath(m, seen);
+    }
+
+    recurse(hot, rest, incomingZero * (hot.samples || 0) / node.samples, incomingOne, node.feature);
+    recurse(cold, rest, incomingZero * (cold.samples || 0) / node.samples, 0, node.feature);
+  };
+
+  recurse(tree, [], 1, 1, null);
+
+  const contributions = Array.from(phi.entries())
+    .map(([feature, contribution]) => ({
+      feature,
+      label: labels.get(feature) || feature,
+      value: input[feature],
+      contribution
+    }))
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+
+  return {
+    outputClass,
+    baseValue: nodeValue(tree),
+    outputValue: nodeValue(findLeaf(tree, input)),
+    contributions
+  };
+};
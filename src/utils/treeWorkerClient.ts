@@ -0,0 +1,186 @@
+import { DataPoint, TreeNode, TreeOptions, TreeBuildProgress } from './dataLoader';
+import { ForestOptions, ForestBuildProgress, RandomForest } from './randomForest';
+
+export interface TrainingRequest {
+  data: DataPoint[];
+  target: string;
+  testFraction: number;
+  options: TreeOptions;
+}
+
+export interface TrainingResult {
+  tree: TreeNode | null;
+  train: DataPoint[];
+  test: DataPoint[];
+}
+
+// Builds on rows the caller has already split off, unlike TrainingRequest
+export interface TreeBuildRequest {
+  data: DataPoint[];
+  target: string;
+  options: TreeOptions;
+}
+
+export interface ForestTrainingRequest {
+  // Already the training split; the forest is compared on the same holdout as the tree
+  data: DataPoint[];
+  target: string;
+  treeOptions: TreeOptions;
+  forestOptions: ForestOptions;
+}
+
+export type TreeWorkerRequest =
+  | { type: 'parse'; requestId: number; csvText: string }
+  | ({ type: 'train'; requestId: number } & TrainingRequest)
+  | ({ type: 'buildTree'; requestId: number } & TreeBuildRequest)
+  | ({ type: 'trainForest'; requestId: number } & ForestTrainingRequest);
+
+export type TreeWorkerResponse =
+  | { type: 'parsed'; requestId: number; data: DataPoint[] }
+  | { type: 'progress'; requestId: number; progress: TreeBuildProgress | ForestBuildProgress }
+  | ({ type: 'trained'; requestId: number } & TrainingResult)
+  | { type: 'treeBuilt'; requestId: number; tree: TreeNode | null }
+  | { type: 'forestTrained'; requestId: number; forest: RandomForest }
+  | { type: 'error'; requestId: number; message: string };
+
+export class CancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+export interface WorkerJob<T> {
+  promise: Promise<T>;
+  cancel: () => void;
+}
+
+interface PendingJob {
+  resolve: (value: DataPoint[] | TrainingResult | TreeNode | null | RandomForest) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: TreeBuildProgress | ForestBuildProgress) => void;
+}
+
+const spawnWorker = () =>
+  new Worker(new URL('../workers/treeWorker.ts', import.meta.url), { type: 'module' });
+
+/**
+ * Owns the tree worker. A running build cannot be interrupted by a message
+ * because induction is synchronous inside the worker, so cancelling a job
+ * terminates the worker; the next job starts a fresh one.
+ */
+export const createTreeWorkerClient = () => {
+  let worker: Worker | null = null;
+  let nextRequestId = 1;
+  const pending = new Map<number, PendingJob>();
+
+  const rejectAll = (error: Error) => {
+    pending.forEach(job => job.reject(error));
+    pending.clear();
+  };
+
+  const getWorker = () => {
+    if (worker) return worker;
+
+    worker = spawnWorker();
+    worker.onmessage = (event: MessageEvent<TreeWorkerResponse>) => {
+      const message = event.data;
+      const job = pending.get(message.requestId);
+      // Responses for cancelled or superseded jobs are dropped here
+      if (!job) return;
+
+      switch (message.type) {
+        case 'progress':
+          job.onProgress?.(message.progress);
+          break;
+        case 'parsed':
+          pending.delete(message.requestId);
+          job.resolve(message.data);
+          break;
+        case 'trained':
+          pending.delete(message.requestId);
+          job.resolve({ tree: message.tree, train: message.train, test: message.test });
+          break;
+        case 'treeBuilt':
+          pending.delete(message.requestId);
+          job.resolve(message.tree);
+          break;
+        case 'forestTrained':
+          pending.delete(message.requestId);
+          job.resolve(message.forest);
+          break;
+        case 'error':
+          pending.delete(message.requestId);
+          job.reject(new Error(message.message));
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      console.error('Tree worker error:', event);
+      rejectAll(new Error(event.message || 'Tree worker failed'));
+      terminate();
+    };
+
+    return worker;
+  };
+
+  const terminate = () => {
+    worker?.terminate();
+    worker = null;
+  };
+
+  const run = <T, P extends TreeBuildProgress = TreeBuildProgress>(
+    message: TreeWorkerRequest,
+    onProgress?: (progress: P) => void
+  ): WorkerJob<T> => {
+    const promise = new Promise<T>((resolve, reject) => {
+      pending.set(message.requestId, {
+        resolve: resolve as PendingJob['resolve'],
+        reject,
+        // The worker sends the progress shape that matches the request type
+        onProgress: onProgress as PendingJob['onProgress']
+      });
+    });
+
+    getWorker().postMessage(message);
+
+    const cancel = () => {
+      const job = pending.get(message.requestId);
+      if (!job) return;
+      pending.delete(message.requestId);
+      job.reject(new CancelledError());
+      // Other jobs share the worker we are about to kill
+      rejectAll(new CancelledError());
+      terminate();
+    };
+
+    return { promise, cancel };
+  };
+
+  return {
+    parse: (csvText: string) =>
+      run<DataPoint[]>({ type: 'parse', requestId: nextRequestId++, csvText }),
+    train: (request: TrainingRequest, onProgress?: (progress: TreeBuildProgress) => void) =>
+      run<TrainingResult>({ type: 'train', requestId: nextRequestId++, ...request }, onProgress),
+    buildTree: (request: TreeBuildRequest, onProgress?: (progress: TreeBuildProgress) => void) =>
+      run<TreeNode | null>({ type: 'buildTree', requestId: nextRequestId++, ...request }, onProgress),
+    trainForest: (request: ForestTrainingRequest, onProgress?: (progress: ForestBuildProgress) => void) =>
+      run<RandomForest, ForestBuildProgress>({ type: 'trainForest', requestId: nextRequestId++, ...request }, onProgress),
+    dispose: () => {
+      rejectAll(new CancelledError());
+      terminate();
+    }
+  };
+};
+
+export type TreeWorkerClient = ReturnType<typeof createTreeWorkerClient>;
+
+// One-off parse on a short-lived worker
+export const parseCsvInWorker = async (csvText: string): Promise<DataPoint[]> => {
+  const client = createTreeWorkerClient();
+  try {
+    return await client.parse(csvText).promise;
+  } finally {
+    client.dispose();
+  }
+};
@@ -0,0 +1,81 @@
+import { buildDecisionTree, parseCsv, TreeBuildProgress } from '../utils/dataLoader';
+import { randomSplit, stratifiedSplit } from '../utils/evaluation';
+import { buildRandomForest } from '../utils/randomForest';
+import type { TreeWorkerRequest, TreeWorkerResponse } from '../utils/treeWorkerClient';
+
+// Dedicated worker scope; typed as Worker because the project compiles against the DOM lib
+const ctx = self as unknown as Worker;
+
+// Posting on every node would flood the main thread on large trees
+const PROGRESS_INTERVAL_MS = 50;
+
+const post = (message: TreeWorkerResponse) => ctx.postMessage(message);
+
+// Assigned (not added) so it replaces the handler Papa installs when loaded in a worker
+ctx.onmessage = async (event: MessageEvent<TreeWorkerRequest>) => {
+  const message = event.data;
+
+  try {
+    switch (message.type) {
+      case 'parse': {
+        const data = await parseCsv(message.csvText);
+        post({ type: 'parsed', requestId: message.requestId, data });
+        break;
+      }
+      case 'train': {
+        const { data, target, testFraction, options } = message;
+        // Rows without a numeric target can't be used to fit or score a regression tree
+        const { train, test } = options.task === 'regression'
+          ? randomSplit(data.filter(row => typeof row[target] === 'number'), testFraction)
+          : stratifiedSplit(data, target, testFraction);
+
+        let lastPost = 0;
+        const onProgress = (progress: TreeBuildProgress) => {
+          const now = Date.now();
+          if (now - lastPost < PROGRESS_INTERVAL_MS) return;
+          lastPost = now;
+          post({ type: 'progress', requestId: message.requestId, progress });
+        };
+
+        const tree = buildDecisionTree(train, target, options, onProgress);
+        post({ type: 'trained', requestId: message.requestId, tree, train, test });
+        break;
+      }
+      case 'buildTree': {
+        let lastPost = 0;
+        const tree = buildDecisionTree(message.data, message.target, message.options, (progress) => {
+          const now = Date.now();
+          if (now - lastPost < PROGRESS_INTERVAL_MS) return;
+          lastPost = now;
+          post({ type: 'progress', requestId: message.requestId, progress });
+        });
+        post({ type: 'treeBuilt', requestId: message.requestId, tree });
+        break;
+      }
+      case 'trainForest': {
+        let lastPost = 0;
+        const forest = buildRandomForest(
+          message.data,
+          message.target,
+          message.treeOptions,
+          message.forestOptions,
+          (progress) => {
+            const now = Date.now();
+            const finished = progress.treesBuilt === progress.totalTrees;
+            if (!finished && now - lastPost < PROGRESS_INTERVAL_MS) return;
+            lastPost = now;
+            post({ type: 'progress', requestId: message.requestId, progress });
+          }
+        );
+        post({ type: 'forestTrained', requestId: message.requestId, forest });
+        break;
+      }
+    }
+  } catch (error) {
+    post({
+      type: 'error',
+      requestId: message.requestId,
+      message: error instanceof Error ? error.message : String(error)
+    });
+  }
+};